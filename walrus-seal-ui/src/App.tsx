@@ -8,8 +8,15 @@ import { AppProvider } from './context/AppContext';
 import { AppLayout } from './components/layout/AppLayout';
 import { Landing } from './pages/Landing';
 import { Store } from './pages/Walrus/Store';
+import { Quilt } from './pages/Walrus/Quilt';
+import { Manage } from './pages/Walrus/Manage';
+import { Shared } from './pages/Walrus/Shared';
+import { System } from './pages/Walrus/System';
 import { Encrypt } from './pages/Seal/Encrypt';
 import { SecureStorage } from './pages/Integration/SecureStorage';
+import { Allowlist } from './pages/Integration/Allowlist';
+import { Subscription } from './pages/Integration/Subscription';
+import { Timelock } from './pages/Integration/Timelock';
 import { ROUTES } from './utils/constants';
 import '@radix-ui/themes/styles.css';
 import './styles/global.css';
@@ -41,9 +48,10 @@ function App() {
                     <Route index element={<Landing />} />
                     <Route path={ROUTES.WALRUS.ROOT} element={<Store />} />
                     <Route path={ROUTES.WALRUS.STORE} element={<Store />} />
-                    <Route path={ROUTES.WALRUS.QUILT} element={<div>Quilt Manager Coming Soon</div>} />
-                    <Route path={ROUTES.WALRUS.MANAGE} element={<div>Blob Management Coming Soon</div>} />
-                    <Route path={ROUTES.WALRUS.SYSTEM} element={<div>System Info Coming Soon</div>} />
+                    <Route path={ROUTES.WALRUS.QUILT} element={<Quilt />} />
+                    <Route path={ROUTES.WALRUS.MANAGE} element={<Manage />} />
+                    <Route path={ROUTES.WALRUS.SHARED} element={<Shared />} />
+                    <Route path={ROUTES.WALRUS.SYSTEM} element={<System />} />
                     <Route path={ROUTES.SEAL.ROOT} element={<Encrypt />} />
                     <Route path={ROUTES.SEAL.ENCRYPT} element={<Encrypt />} />
                     <Route path={ROUTES.SEAL.PATTERNS} element={<div>Access Patterns Coming Soon</div>} />
@@ -51,9 +59,9 @@ function App() {
                     <Route path={ROUTES.SEAL.POLICIES} element={<div>Policy Management Coming Soon</div>} />
                     <Route path={ROUTES.INTEGRATED.ROOT} element={<SecureStorage />} />
                     <Route path={ROUTES.INTEGRATED.SECURE_STORAGE} element={<SecureStorage />} />
-                    <Route path={ROUTES.INTEGRATED.ALLOWLIST} element={<div>Allowlist Demo Coming Soon</div>} />
-                    <Route path={ROUTES.INTEGRATED.SUBSCRIPTION} element={<div>Subscription Demo Coming Soon</div>} />
-                    <Route path={ROUTES.INTEGRATED.TIMELOCK} element={<div>Time-lock Demo Coming Soon</div>} />
+                    <Route path={ROUTES.INTEGRATED.ALLOWLIST} element={<Allowlist />} />
+                    <Route path={ROUTES.INTEGRATED.SUBSCRIPTION} element={<Subscription />} />
+                    <Route path={ROUTES.INTEGRATED.TIMELOCK} element={<Timelock />} />
                     <Route path={ROUTES.SETTINGS} element={<div>Settings Coming Soon</div>} />
                   </Route>
                 </Routes>
@@ -0,0 +1,238 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Card, Flex, Text, Button, Badge, TextField, TextArea, Separator } from '@radix-ui/themes';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { useAllowlists } from '../../hooks/useAllowlists';
+import { useAppContext } from '../../context/AppContext';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { EncryptedBlobList } from './EncryptedBlobList';
+import { PolicyShareForm } from './PolicyShareForm';
+import { truncateAddress } from '../../utils/config';
+import { ROUTES } from '../../utils/constants';
+import type { PolicyStoreOptions } from '../../hooks/usePolicyFiles';
+import type { SealAllowlistInfo } from '../../types/seal';
+
+type AllowlistActions = Pick<ReturnType<typeof useAllowlists>, 'addMember' | 'removeMember' | 'shareFiles' | 'decryptFile' | 'untrack' | 'loading'>;
+
+interface AllowlistCardProps extends AllowlistActions {
+  allowlist: SealAllowlistInfo;
+  address?: string;
+}
+
+function parseAddresses(input: string): string[] {
+  return input.split(/[\s,]+/).map(address => address.trim()).filter(Boolean);
+}
+
+function AllowlistCard({ allowlist, address, addMember, removeMember, shareFiles, decryptFile, untrack, loading }: AllowlistCardProps) {
+  const [newMember, setNewMember] = useState('');
+
+  const isAdmin = !!allowlist.capId;
+  const isMember = !!address && allowlist.members.some(member => normalizeSuiAddress(member) === normalizeSuiAddress(address));
+  const shareLink = `${window.location.origin}${ROUTES.INTEGRATED.ALLOWLIST}?allowlist=${allowlist.id}`;
+
+  const handleAddMember = useCallback(async () => {
+    const member = newMember.trim();
+    if (!member) return;
+
+    if (await addMember(allowlist.id, member)) {
+      setNewMember('');
+    }
+  }, [newMember, addMember, allowlist.id]);
+
+  const handleRemoveMember = useCallback(async (member: string) => {
+    if (!window.confirm(`Remove ${truncateAddress(member)} from "${allowlist.name}"? They will no longer be able to decrypt its files.`)) {
+      return;
+    }
+    await removeMember(allowlist.id, member);
+  }, [removeMember, allowlist.id, allowlist.name]);
+
+  const handleShare = useCallback((files: File[], options: PolicyStoreOptions) => {
+    return shareFiles(allowlist.id, files, options);
+  }, [shareFiles, allowlist.id]);
+
+  const handleDecrypt = useCallback((blobId: string) => {
+    return decryptFile(allowlist.id, blobId);
+  }, [decryptFile, allowlist.id]);
+
+  return (
+    <Card style={{ padding: '16px' }}>
+      <Flex direction="column" gap="3">
+        <Flex justify="between" align="center">
+          <Flex direction="column" gap="1">
+            <Text size="3" weight="bold">{allowlist.name}</Text>
+            <Text size="1" color="gray" style={{ fontFamily: 'monospace' }}>
+              {truncateAddress(allowlist.id, 10, 6)}
+            </Text>
+          </Flex>
+          <Flex align="center" gap="2">
+            {isAdmin && <Badge color="purple" variant="soft">Admin</Badge>}
+            <Badge color={isMember ? 'green' : 'gray'} variant="soft">{isMember ? 'Member' : 'Not a member'}</Badge>
+            <Badge variant="soft">{allowlist.members.length} members</Badge>
+            <Button size="1" variant="soft" onClick={() => navigator.clipboard.writeText(shareLink)}>
+              🔗 Copy link
+            </Button>
+            <Button size="1" variant="ghost" color="red" onClick={() => untrack(allowlist.id)}>
+              Untrack
+            </Button>
+          </Flex>
+        </Flex>
+
+        {isAdmin && (
+          <>
+            <Separator style={{ width: '100%' }} />
+            <Text size="2" weight="medium">Members</Text>
+            {allowlist.members.length === 0 && (
+              <Text size="2" color="gray">No members yet. Add collaborator addresses below.</Text>
+            )}
+            {allowlist.members.map(member => (
+              <Flex key={member} justify="between" align="center">
+                <Text size="2" style={{ fontFamily: 'monospace' }}>{truncateAddress(member, 10, 6)}</Text>
+                <Button size="1" variant="soft" color="red" onClick={() => handleRemoveMember(member)} disabled={loading}>
+                  Remove
+                </Button>
+              </Flex>
+            ))}
+            <Flex gap="2">
+              <TextField.Root
+                placeholder="Collaborator address (0x...)"
+                value={newMember}
+                onChange={(e) => setNewMember(e.target.value)}
+                style={{ flex: 1 }}
+              />
+              <Button variant="soft" onClick={handleAddMember} disabled={!newMember.trim() || loading}>
+                Add
+              </Button>
+            </Flex>
+
+            <Separator style={{ width: '100%' }} />
+            <PolicyShareForm share={handleShare} />
+          </>
+        )}
+
+        <Separator style={{ width: '100%' }} />
+        <EncryptedBlobList
+          blobIds={allowlist.blobIds}
+          canDecrypt={isMember}
+          decrypt={handleDecrypt}
+          emptyText="No files have been shared with this allowlist yet."
+        />
+      </Flex>
+    </Card>
+  );
+}
+
+export function AllowlistPanel() {
+  const { state } = useAppContext();
+  const { allowlists, refresh, track, untrack, create, addMember, removeMember, shareFiles, decryptFile, ready, loading, error } = useAllowlists();
+  const [searchParams] = useSearchParams();
+
+  const [name, setName] = useState('');
+  const [members, setMembers] = useState('');
+  const [allowlistId, setAllowlistId] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  // Share links carry the allowlist ID so collaborators land on its files directly
+  const linkedAllowlistId = searchParams.get('allowlist');
+  useEffect(() => {
+    if (ready && linkedAllowlistId) {
+      track(linkedAllowlistId);
+    }
+  }, [ready, linkedAllowlistId, track]);
+
+  const handleCreate = useCallback(async () => {
+    if (!name.trim()) return;
+
+    setCreating(true);
+    try {
+      if (await create(name.trim(), parseAddresses(members))) {
+        setName('');
+        setMembers('');
+      }
+    } finally {
+      setCreating(false);
+    }
+  }, [name, members, create]);
+
+  const handleTrack = useCallback(async () => {
+    const id = allowlistId.trim();
+    if (!id) return;
+
+    if (await track(id)) {
+      setAllowlistId('');
+    }
+  }, [allowlistId, track]);
+
+  return (
+    <Card style={{ padding: '24px' }}>
+      <Flex direction="column" gap="4">
+        <Flex justify="between" align="center">
+          <Text size="5" weight="bold">📋 Allowlists</Text>
+          <Button variant="soft" onClick={refresh} disabled={!ready}>
+            🔄 Refresh
+          </Button>
+        </Flex>
+
+        {error && (
+          <Card style={{ padding: '12px', background: 'var(--red-2)', border: '1px solid var(--red-6)' }}>
+            <Text size="2" color="red">{error}</Text>
+          </Card>
+        )}
+
+        <Flex direction="column" gap="2">
+          <Text size="3" weight="medium">Create an allowlist</Text>
+          <TextField.Root
+            placeholder="Allowlist name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <TextArea
+            placeholder="Collaborator addresses, separated by commas or new lines (optional)"
+            value={members}
+            onChange={(e) => setMembers(e.target.value)}
+            rows={3}
+          />
+          <Button onClick={handleCreate} disabled={!state.wallet.connected || !ready || !name.trim() || creating}>
+            {creating ? <LoadingSpinner size="small" text="" /> : 'Create allowlist'}
+          </Button>
+        </Flex>
+
+        <Flex direction="column" gap="2">
+          <Text size="3" weight="medium">Open a shared allowlist</Text>
+          <Flex gap="2" align="center">
+            <TextField.Root
+              placeholder="Allowlist object ID"
+              value={allowlistId}
+              onChange={(e) => setAllowlistId(e.target.value)}
+              style={{ flex: 1 }}
+            />
+            <Button variant="soft" onClick={handleTrack} disabled={!ready || !allowlistId.trim()}>
+              Open
+            </Button>
+          </Flex>
+        </Flex>
+
+        <Separator style={{ width: '100%' }} />
+
+        {allowlists.length === 0 && (
+          <Text size="2" color="gray">
+            No allowlists yet. Create one, or open a link an allowlist admin shared with you.
+          </Text>
+        )}
+
+        {allowlists.map(allowlist => (
+          <AllowlistCard
+            key={allowlist.id}
+            allowlist={allowlist}
+            address={state.wallet.account?.address}
+            addMember={addMember}
+            removeMember={removeMember}
+            shareFiles={shareFiles}
+            decryptFile={decryptFile}
+            untrack={untrack}
+            loading={loading}
+          />
+        ))}
+      </Flex>
+    </Card>
+  );
+}
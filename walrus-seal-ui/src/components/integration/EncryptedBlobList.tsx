@@ -0,0 +1,93 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Card, Flex, Text, Button, Badge } from '@radix-ui/themes';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { formatBytes, truncateAddress } from '../../utils/config';
+import { sniffMimeType } from '../../utils/walrus';
+
+interface DecryptedFile {
+  url: string;
+  mimeType: string;
+  size: number;
+}
+
+interface EncryptedBlobListProps {
+  blobIds: string[];
+  canDecrypt: boolean;
+  decrypt: (blobId: string) => Promise<Uint8Array | null>;
+  emptyText: string;
+  autoDecrypt?: boolean;
+}
+
+export function EncryptedBlobList({ blobIds, canDecrypt, decrypt, emptyText, autoDecrypt = false }: EncryptedBlobListProps) {
+  const [decrypting, setDecrypting] = useState<string | null>(null);
+  const [decrypted, setDecrypted] = useState<Record<string, DecryptedFile>>({});
+  const objectUrlsRef = useRef<string[]>([]);
+  const autoAttemptedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    const objectUrls = objectUrlsRef.current;
+    return () => objectUrls.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  const handleDecrypt = useCallback(async (blobId: string) => {
+    setDecrypting(blobId);
+    try {
+      const data = await decrypt(blobId);
+      if (data) {
+        const mimeType = sniffMimeType(data) ?? 'application/octet-stream';
+        const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+        objectUrlsRef.current.push(url);
+        setDecrypted(prev => ({ ...prev, [blobId]: { url, mimeType, size: data.length } }));
+      }
+    } finally {
+      setDecrypting(null);
+    }
+  }, [decrypt]);
+
+  // Each blob is tried once automatically; a failed attempt falls back to the Decrypt button
+  useEffect(() => {
+    if (!autoDecrypt || !canDecrypt || decrypting !== null) return;
+
+    const next = blobIds.find(blobId => !autoAttemptedRef.current.has(blobId));
+    if (next) {
+      autoAttemptedRef.current.add(next);
+      handleDecrypt(next);
+    }
+  }, [autoDecrypt, canDecrypt, decrypting, blobIds, handleDecrypt]);
+
+  return (
+    <Flex direction="column" gap="2">
+      <Text size="2" weight="medium">Files ({blobIds.length})</Text>
+      {blobIds.length === 0 && (
+        <Text size="2" color="gray">{emptyText}</Text>
+      )}
+      {blobIds.map(blobId => {
+        const file = decrypted[blobId];
+        return (
+          <Card key={blobId} variant="surface">
+            <Flex direction="column" gap="2">
+              <Flex justify="between" align="center">
+                <Text size="2" style={{ fontFamily: 'monospace' }}>{truncateAddress(blobId, 10, 6)}</Text>
+                {file ? (
+                  <Flex align="center" gap="2">
+                    <Badge variant="soft">{file.mimeType} • {formatBytes(file.size)}</Badge>
+                    <Button size="1" variant="soft" asChild>
+                      <a href={file.url} download={blobId}>💾 Download</a>
+                    </Button>
+                  </Flex>
+                ) : (
+                  <Button size="1" onClick={() => handleDecrypt(blobId)} disabled={!canDecrypt || decrypting !== null}>
+                    {decrypting === blobId ? <LoadingSpinner size="small" text="" /> : '🔓 Decrypt'}
+                  </Button>
+                )}
+              </Flex>
+              {file?.mimeType.startsWith('image/') && (
+                <img src={file.url} alt={blobId} style={{ maxWidth: '100%', maxHeight: '320px', objectFit: 'contain' }} />
+              )}
+            </Flex>
+          </Card>
+        );
+      })}
+    </Flex>
+  );
+}
@@ -1,16 +1,20 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { Card, Flex, Text, Button, Select, Badge, Box, Separator, Checkbox } from '@radix-ui/themes';
 import { useWalrus } from '../../hooks/useWalrus';
 import { useSeal } from '../../hooks/useSeal';
 import { useAppContext } from '../../context/AppContext';
 import { LoadingSpinner } from '../common/LoadingSpinner';
-import { validateFileSize, validateFileType, formatBytes } from '../../utils/config';
+import { CostEstimate } from '../walrus/CostEstimate';
+import { PolicyPanelLinks } from './PolicyPanelLinks';
+import { validateFileSize, validateFileType, formatBytes, formatTokenAmount } from '../../utils/config';
 import { APP_CONFIG } from '../../utils/constants';
 import { SealEncryptionResult, SealSessionKey } from '../../types/seal';
-import { WalrusStoreResult } from '../../types/walrus';
+import { WalrusFileStoreResult } from '../../types/walrus';
+
+const POLICY_TYPE = 'private';
 
 interface EncryptedFileUploaderProps {
-  onUploadComplete?: (result: { walrusResult: WalrusStoreResult; sealResult: SealEncryptionResult[]; sessionKey?: SealSessionKey }) => void;
+  onUploadComplete?: (result: { walrusResult: WalrusFileStoreResult[]; sealResult: SealEncryptionResult[]; sessionKey?: SealSessionKey }) => void;
 }
 
 export function EncryptedFileUploader({ onUploadComplete }: EncryptedFileUploaderProps) {
@@ -25,7 +29,6 @@ export function EncryptedFileUploader({ onUploadComplete }: EncryptedFileUploade
   } = useSeal();
   
   const [files, setFiles] = useState<File[]>([]);
-  const [policyType, setPolicyType] = useState<'private' | 'allowlist' | 'subscription' | 'timelock'>('private');
   const [epochs, setEpochs] = useState(APP_CONFIG.walrus.defaultEpochs);
   const [permanent, setPermanent] = useState(false);
   const [uploadResult, setUploadResult] = useState<any>(null);
@@ -34,6 +37,8 @@ export function EncryptedFileUploader({ onUploadComplete }: EncryptedFileUploade
   const [sessionKey, setSessionKey] = useState<SealSessionKey | null>(null);
   const [needsSignature, setNeedsSignature] = useState(false);
 
+  const fileSizes = useMemo(() => files.map(file => file.size), [files]);
+
   // Create session key when needed
   useEffect(() => {
     if (state.wallet.connected && state.wallet.account && !sessionKey && currentStep === 'session') {
@@ -132,8 +137,11 @@ export function EncryptedFileUploader({ onUploadComplete }: EncryptedFileUploade
         
         const fileData = new Uint8Array(await file.arrayBuffer());
         
-        // Create unique policy for each file
-        const policy = createPolicy(policyType);
+        // Create unique policy for each file; shared policies are set up in their own panels
+        const policy = createPolicy(POLICY_TYPE, { owner: state.wallet.account?.address });
+        if (!policy) {
+          throw new Error(`Cannot create a ${POLICY_TYPE} policy for ${file.name}`);
+        }
         
         const encryptionResult = await encrypt(fileData, policy);
         
@@ -160,7 +168,7 @@ export function EncryptedFileUploader({ onUploadComplete }: EncryptedFileUploade
         deletable: !permanent,
         attributes: {
           'encrypted': 'true',
-          'seal_policy': policyType,
+          'seal_policy': POLICY_TYPE,
           'original_count': files.length.toString(),
           'encryption_timestamp': new Date().toISOString(),
           'session_key_id': sessionKey.id
@@ -174,7 +182,7 @@ export function EncryptedFileUploader({ onUploadComplete }: EncryptedFileUploade
           sealResults,
           originalFiles: files.map(f => ({ name: f.name, size: f.size, type: f.type })),
           sessionKeyId: sessionKey.id,
-          policyType
+          policyType: POLICY_TYPE
         });
 
         if (onUploadComplete) {
@@ -197,7 +205,7 @@ export function EncryptedFileUploader({ onUploadComplete }: EncryptedFileUploade
     sessionKey, 
     needsSignature, 
     createPolicy, 
-    policyType, 
+    state.wallet.account, 
     encrypt, 
     storeToWalrus, 
     epochs, 
@@ -333,20 +341,8 @@ export function EncryptedFileUploader({ onUploadComplete }: EncryptedFileUploade
             {/* Policy Selection */}
             <Flex direction="column" gap="2">
               <Text size="3" weight="medium">Access Policy</Text>
-              <select
-                value={policyType}
-                onChange={(e) => setPolicyType(e.target.value as any)}
-                style={{
-                  padding: '8px',
-                  border: '1px solid var(--gray-6)',
-                  borderRadius: '4px'
-                }}
-              >
-                <option value="private">Private (Owner Only)</option>
-                <option value="allowlist">Allowlist (Specific Users)</option>
-                <option value="subscription">Subscription (Paid Access)</option>
-                <option value="timelock">Time-locked (Delayed Release)</option>
-              </select>
+              <Badge variant="soft" style={{ alignSelf: 'flex-start' }}>Private (Owner Only)</Badge>
+              <PolicyPanelLinks />
             </Flex>
 
             {/* Walrus Configuration */}
@@ -379,6 +375,7 @@ export function EncryptedFileUploader({ onUploadComplete }: EncryptedFileUploade
                   <Text size="2">Permanent Storage</Text>
                 </Flex>
               </Flex>
+              <CostEstimate sizes={fileSizes} epochs={epochs} />
             </Flex>
 
             <Button
@@ -446,20 +443,38 @@ export function EncryptedFileUploader({ onUploadComplete }: EncryptedFileUploade
                 <Text size="3" weight="medium">Upload Summary</Text>
                 <Text size="2">Files encrypted: {uploadResult.originalFiles.length}</Text>
                 <Text size="2">Policy type: {uploadResult.policyType}</Text>
-                <Text size="2">Blob ID: {uploadResult.walrusResult.blobId}</Text>
                 <Text size="2">Session Key: {uploadResult.sessionKeyId}</Text>
                 <Text size="2">Storage epochs: {epochs}</Text>
-                <Text size="2">Cost: {uploadResult.walrusResult.cost || 0} SUI</Text>
+                <Text size="2">
+                  Cost: {formatTokenAmount(uploadResult.walrusResult.reduce((total: number, fileResult: WalrusFileStoreResult) => total + (fileResult.result?.cost || 0), 0), 'WAL')}
+                </Text>
               </Flex>
 
               <Flex direction="column" gap="2">
                 <Text size="3" weight="medium">Encrypted Files</Text>
-                {uploadResult.originalFiles.map((file: any, index: number) => (
-                  <Flex key={index} justify="between" align="center">
-                    <Text size="2">{file.name}</Text>
-                    <Text size="1" color="gray">{(file.size / 1024).toFixed(1)} KB</Text>
-                  </Flex>
-                ))}
+                {uploadResult.originalFiles.map((file: any, index: number) => {
+                  const fileResult: WalrusFileStoreResult | undefined = uploadResult.walrusResult[index];
+                  return (
+                    <Flex key={index} direction="column" gap="1">
+                      <Flex justify="between" align="center">
+                        <Text size="2">{file.name}</Text>
+                        <Flex align="center" gap="2">
+                          <Text size="1" color="gray">{(file.size / 1024).toFixed(1)} KB</Text>
+                          <Badge color={fileResult?.status === 'stored' ? 'green' : 'red'}>
+                            {fileResult?.status || 'failed'}
+                          </Badge>
+                        </Flex>
+                      </Flex>
+                      {fileResult?.result ? (
+                        <Text size="1" color="gray" style={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                          Blob ID: {fileResult.result.blobId}
+                        </Text>
+                      ) : (
+                        <Text size="1" color="red">{fileResult?.error}</Text>
+                      )}
+                    </Flex>
+                  );
+                })}
               </Flex>
 
               <Button onClick={resetProcess} size="3">
@@ -0,0 +1,19 @@
+import { Link } from 'react-router-dom';
+import { Flex, Text } from '@radix-ui/themes';
+import { ROUTES } from '../../utils/constants';
+
+// Shared policies need an on-chain object or an unlock time, which only their own panels collect
+export function PolicyPanelLinks() {
+  return (
+    <Flex direction="column" gap="1">
+      <Text size="2" color="gray">
+        Only you can decrypt data encrypted here. To share it, use a dedicated panel:
+      </Text>
+      <Flex gap="3">
+        <Link to={ROUTES.INTEGRATED.ALLOWLIST}><Text size="2">Allowlist</Text></Link>
+        <Link to={ROUTES.INTEGRATED.SUBSCRIPTION}><Text size="2">Subscription</Text></Link>
+        <Link to={ROUTES.INTEGRATED.TIMELOCK}><Text size="2">Time-lock</Text></Link>
+      </Flex>
+    </Flex>
+  );
+}
@@ -0,0 +1,70 @@
+import React, { useState, useCallback } from 'react';
+import { Flex, Text, Button, TextField, Checkbox } from '@radix-ui/themes';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { validateFileSize } from '../../utils/config';
+import { APP_CONFIG } from '../../utils/constants';
+import type { PolicyStoreOptions } from '../../hooks/usePolicyFiles';
+import type { WalrusFileStoreResult } from '../../types/walrus';
+
+interface PolicyShareFormProps {
+  share: (files: File[], options: PolicyStoreOptions) => Promise<WalrusFileStoreResult[] | null>;
+}
+
+export function PolicyShareForm({ share }: PolicyShareFormProps) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [epochs, setEpochs] = useState(APP_CONFIG.walrus.defaultEpochs);
+  const [permanent, setPermanent] = useState(false);
+  const [sharing, setSharing] = useState(false);
+
+  const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []);
+    const tooLarge = selected.filter(file => !validateFileSize(file));
+    if (tooLarge.length > 0) {
+      alert(`Files too large: ${tooLarge.map(file => file.name).join(', ')}`);
+    }
+    setFiles(selected.filter(file => validateFileSize(file)));
+  }, []);
+
+  const handleShare = useCallback(async () => {
+    if (files.length === 0) return;
+
+    setSharing(true);
+    try {
+      const results = await share(files, { epochs, permanent, deletable: !permanent });
+      if (results) {
+        const failed = results.filter(result => result.status !== 'stored');
+        setFiles(prev => prev.filter(file => failed.some(result => result.fileName === `${file.name}.seal`)));
+      }
+    } finally {
+      setSharing(false);
+    }
+  }, [files, share, epochs, permanent]);
+
+  return (
+    <Flex direction="column" gap="2">
+      <Text size="2" weight="medium">Share files</Text>
+      <input
+        type="file"
+        multiple
+        onChange={handleFileSelect}
+        style={{ padding: '8px', border: '2px dashed var(--gray-6)', borderRadius: '8px', cursor: 'pointer' }}
+      />
+      <Flex align="center" gap="3">
+        <Text size="2">Epochs</Text>
+        <TextField.Root
+          type="number"
+          value={epochs.toString()}
+          onChange={(e) => setEpochs(Math.max(1, Number(e.target.value)))}
+          style={{ width: '80px' }}
+        />
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <Checkbox checked={permanent} onCheckedChange={(checked) => setPermanent(checked === true)} />
+          <Text size="2">Permanent</Text>
+        </label>
+        <Button onClick={handleShare} disabled={files.length === 0 || sharing}>
+          {sharing ? <LoadingSpinner size="small" text="" /> : `🔐 Encrypt & share ${files.length || ''}`}
+        </Button>
+      </Flex>
+    </Flex>
+  );
+}
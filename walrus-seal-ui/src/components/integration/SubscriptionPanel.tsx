@@ -0,0 +1,237 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Card, Flex, Text, Button, Badge, TextField, Separator } from '@radix-ui/themes';
+import { useSubscriptions } from '../../hooks/useSubscriptions';
+import { useAppContext } from '../../context/AppContext';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { EncryptedBlobList } from './EncryptedBlobList';
+import { PolicyShareForm } from './PolicyShareForm';
+import { formatDate, formatDuration, formatTokenAmount, truncateAddress } from '../../utils/config';
+import { activeSubscription } from '../../utils/seal';
+import { ROUTES } from '../../utils/constants';
+import type { PolicyStoreOptions } from '../../hooks/usePolicyFiles';
+import type { SealSubscriptionInfo, SealSubscriptionServiceInfo } from '../../types/seal';
+
+const MIST_PER_SUI = 1_000_000_000;
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+type SubscriptionActions = Pick<ReturnType<typeof useSubscriptions>, 'purchase' | 'shareFiles' | 'decryptFile' | 'untrack' | 'loading'>;
+
+interface ServiceCardProps extends SubscriptionActions {
+  service: SealSubscriptionServiceInfo;
+  subscriptions: SealSubscriptionInfo[];
+  connected: boolean;
+}
+
+function ServiceCard({ service, subscriptions, connected, purchase, shareFiles, decryptFile, untrack, loading }: ServiceCardProps) {
+  const [subscribing, setSubscribing] = useState(false);
+
+  const isCreator = !!service.capId;
+  const subscription = activeSubscription(subscriptions, service);
+  const shareLink = `${window.location.origin}${ROUTES.INTEGRATED.SUBSCRIPTION}?service=${service.id}`;
+
+  const handleSubscribe = useCallback(async () => {
+    if (!window.confirm(`Pay ${formatTokenAmount(service.fee, 'SUI')} for ${formatDuration(service.ttl)} of access to "${service.name}"?`)) {
+      return;
+    }
+
+    setSubscribing(true);
+    try {
+      await purchase(service.id);
+    } finally {
+      setSubscribing(false);
+    }
+  }, [purchase, service]);
+
+  const handleShare = useCallback((files: File[], options: PolicyStoreOptions) => {
+    return shareFiles(service, files, options);
+  }, [shareFiles, service]);
+
+  const handleDecrypt = useCallback((blobId: string) => {
+    return decryptFile(service, blobId);
+  }, [decryptFile, service]);
+
+  return (
+    <Card style={{ padding: '16px' }}>
+      <Flex direction="column" gap="3">
+        <Flex justify="between" align="center">
+          <Flex direction="column" gap="1">
+            <Text size="3" weight="bold">{service.name}</Text>
+            <Text size="1" color="gray" style={{ fontFamily: 'monospace' }}>
+              {truncateAddress(service.id, 10, 6)}
+            </Text>
+          </Flex>
+          <Flex align="center" gap="2">
+            {isCreator && <Badge color="purple" variant="soft">Creator</Badge>}
+            <Badge variant="soft">{formatTokenAmount(service.fee, 'SUI')} / {formatDuration(service.ttl)}</Badge>
+            {subscription ? (
+              <Badge color="green" variant="soft">
+                Subscribed until {formatDate(new Date(subscription.createdAt + service.ttl))}
+              </Badge>
+            ) : (
+              <Badge color="gray" variant="soft">Not subscribed</Badge>
+            )}
+            <Button size="1" variant="soft" onClick={() => navigator.clipboard.writeText(shareLink)}>
+              🔗 Copy link
+            </Button>
+            <Button size="1" variant="ghost" color="red" onClick={() => untrack(service.id)}>
+              Untrack
+            </Button>
+          </Flex>
+        </Flex>
+
+        {!subscription && (
+          <Button onClick={handleSubscribe} disabled={!connected || loading || subscribing}>
+            {subscribing ? <LoadingSpinner size="small" text="" /> : `Subscribe for ${formatTokenAmount(service.fee, 'SUI')}`}
+          </Button>
+        )}
+
+        {isCreator && (
+          <>
+            <Separator style={{ width: '100%' }} />
+            <PolicyShareForm share={handleShare} />
+          </>
+        )}
+
+        <Separator style={{ width: '100%' }} />
+        <EncryptedBlobList
+          blobIds={service.blobIds}
+          canDecrypt={!!subscription}
+          decrypt={handleDecrypt}
+          emptyText="No files have been published to this service yet."
+        />
+      </Flex>
+    </Card>
+  );
+}
+
+export function SubscriptionPanel() {
+  const { state } = useAppContext();
+  const { services, subscriptions, refresh, track, untrack, create, purchase, shareFiles, decryptFile, ready, loading, error } = useSubscriptions();
+  const [searchParams] = useSearchParams();
+
+  const [name, setName] = useState('');
+  const [price, setPrice] = useState('0.1');
+  const [hours, setHours] = useState('24');
+  const [serviceId, setServiceId] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  // Share links carry the service ID so subscribers land on its files directly
+  const linkedServiceId = searchParams.get('service');
+  useEffect(() => {
+    if (ready && linkedServiceId) {
+      track(linkedServiceId);
+    }
+  }, [ready, linkedServiceId, track]);
+
+  const priceInMist = Math.round(Number(price) * MIST_PER_SUI);
+  const durationInMs = Math.round(Number(hours) * MS_PER_HOUR);
+  const validForm = !!name.trim() && Number.isFinite(priceInMist) && priceInMist >= 0
+    && Number.isFinite(durationInMs) && durationInMs > 0;
+
+  const handleCreate = useCallback(async () => {
+    if (!validForm) return;
+
+    setCreating(true);
+    try {
+      if (await create(name.trim(), priceInMist, durationInMs)) {
+        setName('');
+      }
+    } finally {
+      setCreating(false);
+    }
+  }, [validForm, name, priceInMist, durationInMs, create]);
+
+  const handleTrack = useCallback(async () => {
+    const id = serviceId.trim();
+    if (!id) return;
+
+    if (await track(id)) {
+      setServiceId('');
+    }
+  }, [serviceId, track]);
+
+  return (
+    <Card style={{ padding: '24px' }}>
+      <Flex direction="column" gap="4">
+        <Flex justify="between" align="center">
+          <Text size="5" weight="bold">🎟️ Subscription Services</Text>
+          <Button variant="soft" onClick={refresh} disabled={!ready}>
+            🔄 Refresh
+          </Button>
+        </Flex>
+
+        {error && (
+          <Card style={{ padding: '12px', background: 'var(--red-2)', border: '1px solid var(--red-6)' }}>
+            <Text size="2" color="red">{error}</Text>
+          </Card>
+        )}
+
+        <Flex direction="column" gap="2">
+          <Text size="3" weight="medium">Create a service</Text>
+          <TextField.Root
+            placeholder="Service name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Flex gap="3" align="center">
+            <Text size="2">Price (SUI)</Text>
+            <TextField.Root
+              type="number"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              style={{ width: '120px' }}
+            />
+            <Text size="2">Access (hours)</Text>
+            <TextField.Root
+              type="number"
+              value={hours}
+              onChange={(e) => setHours(e.target.value)}
+              style={{ width: '100px' }}
+            />
+          </Flex>
+          <Button onClick={handleCreate} disabled={!state.wallet.connected || !ready || !validForm || creating}>
+            {creating ? <LoadingSpinner size="small" text="" /> : 'Create service'}
+          </Button>
+        </Flex>
+
+        <Flex direction="column" gap="2">
+          <Text size="3" weight="medium">Open a service</Text>
+          <Flex gap="2" align="center">
+            <TextField.Root
+              placeholder="Service object ID"
+              value={serviceId}
+              onChange={(e) => setServiceId(e.target.value)}
+              style={{ flex: 1 }}
+            />
+            <Button variant="soft" onClick={handleTrack} disabled={!ready || !serviceId.trim()}>
+              Open
+            </Button>
+          </Flex>
+        </Flex>
+
+        <Separator style={{ width: '100%' }} />
+
+        {services.length === 0 && (
+          <Text size="2" color="gray">
+            No services yet. Create one, or open a link a creator shared with you.
+          </Text>
+        )}
+
+        {services.map(service => (
+          <ServiceCard
+            key={service.id}
+            service={service}
+            subscriptions={subscriptions}
+            connected={state.wallet.connected}
+            purchase={purchase}
+            shareFiles={shareFiles}
+            decryptFile={decryptFile}
+            untrack={untrack}
+            loading={loading}
+          />
+        ))}
+      </Flex>
+    </Card>
+  );
+}
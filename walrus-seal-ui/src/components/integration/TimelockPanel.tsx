@@ -0,0 +1,183 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Card, Flex, Text, Button, Badge, TextField, Separator } from '@radix-ui/themes';
+import { useTimelock } from '../../hooks/useTimelock';
+import { useAppContext } from '../../context/AppContext';
+import { EncryptedBlobList } from './EncryptedBlobList';
+import { PolicyShareForm } from './PolicyShareForm';
+import { formatDate, truncateAddress } from '../../utils/config';
+import { ROUTES } from '../../utils/constants';
+import type { PolicyStoreOptions } from '../../hooks/usePolicyFiles';
+import type { SealTimelockEntry } from '../../types/seal';
+
+// The Sui clock that key servers check trails wall-clock time by a few seconds
+const CLOCK_GRACE_MS = 5000;
+
+function toDateTimeInput(date: Date): string {
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function formatCountdown(ms: number): string {
+  const seconds = Math.max(Math.ceil(ms / 1000), 0);
+  const days = Math.floor(seconds / 86400);
+  const time = [Math.floor(seconds / 3600) % 24, Math.floor(seconds / 60) % 60, seconds % 60]
+    .map(value => value.toString().padStart(2, '0'))
+    .join(':');
+  return days > 0 ? `${days}d ${time}` : time;
+}
+
+type TimelockActions = Pick<ReturnType<typeof useTimelock>, 'unlock' | 'untrack'>;
+
+interface TimelockCardProps extends TimelockActions {
+  entry: SealTimelockEntry;
+  now: number;
+  connected: boolean;
+}
+
+function TimelockCard({ entry, now, connected, unlock, untrack }: TimelockCardProps) {
+  const remaining = entry.unlockTime + CLOCK_GRACE_MS - now;
+  const unlocked = remaining <= 0;
+  const shareLink = `${window.location.origin}${ROUTES.INTEGRATED.TIMELOCK}?blob=${entry.blobId}`;
+
+  return (
+    <Card style={{ padding: '16px' }}>
+      <Flex direction="column" gap="3">
+        <Flex justify="between" align="center">
+          <Flex direction="column" gap="1">
+            <Text size="3" weight="bold">{entry.name || truncateAddress(entry.blobId, 10, 6)}</Text>
+            <Text size="1" color="gray">Unlocks {formatDate(new Date(entry.unlockTime))}</Text>
+          </Flex>
+          <Flex align="center" gap="2">
+            {unlocked ? (
+              <Badge color="green" variant="soft">🔓 Unlocked</Badge>
+            ) : (
+              <Badge color="orange" variant="soft" style={{ fontFamily: 'monospace' }}>⏳ {formatCountdown(remaining)}</Badge>
+            )}
+            <Button size="1" variant="soft" onClick={() => navigator.clipboard.writeText(shareLink)}>
+              🔗 Copy link
+            </Button>
+            <Button size="1" variant="ghost" color="red" onClick={() => untrack(entry.blobId)}>
+              Untrack
+            </Button>
+          </Flex>
+        </Flex>
+
+        <EncryptedBlobList
+          blobIds={[entry.blobId]}
+          canDecrypt={unlocked && connected}
+          decrypt={unlock}
+          emptyText=""
+          autoDecrypt
+        />
+      </Flex>
+    </Card>
+  );
+}
+
+export function TimelockPanel() {
+  const { state } = useAppContext();
+  const { entries, lock, track, untrack, unlock, ready, error } = useTimelock();
+  const [searchParams] = useSearchParams();
+
+  const [unlockAt, setUnlockAt] = useState(() => toDateTimeInput(new Date(Date.now() + 60 * 60 * 1000)));
+  const [blobId, setBlobId] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Share links carry the blob ID so recipients can watch the countdown too
+  const linkedBlobId = searchParams.get('blob');
+  useEffect(() => {
+    if (ready && linkedBlobId) {
+      track(linkedBlobId);
+    }
+  }, [ready, linkedBlobId, track]);
+
+  const unlockTime = new Date(unlockAt).getTime();
+  const validUnlockTime = !isNaN(unlockTime) && unlockTime > now;
+
+  const handleLock = useCallback(async (files: File[], options: PolicyStoreOptions) => {
+    const lockUntil = new Date(unlockAt);
+    if (isNaN(lockUntil.getTime()) || lockUntil.getTime() <= Date.now()) {
+      alert('Choose an unlock time in the future');
+      return null;
+    }
+    return lock(files, lockUntil, options);
+  }, [unlockAt, lock]);
+
+  const handleTrack = useCallback(async () => {
+    const id = blobId.trim();
+    if (!id) return;
+
+    if (await track(id)) {
+      setBlobId('');
+    }
+  }, [blobId, track]);
+
+  return (
+    <Card style={{ padding: '24px' }}>
+      <Flex direction="column" gap="4">
+        <Text size="5" weight="bold">⏳ Time-locked Files</Text>
+
+        {error && (
+          <Card style={{ padding: '12px', background: 'var(--red-2)', border: '1px solid var(--red-6)' }}>
+            <Text size="2" color="red">{error}</Text>
+          </Card>
+        )}
+
+        <Flex direction="column" gap="2">
+          <Text size="3" weight="medium">Lock files until</Text>
+          <TextField.Root
+            type="datetime-local"
+            value={unlockAt}
+            onChange={(e) => setUnlockAt(e.target.value)}
+            style={{ width: '240px' }}
+          />
+          {!validUnlockTime && (
+            <Text size="2" color="orange">The unlock time must be in the future</Text>
+          )}
+          {state.wallet.connected && ready && (
+            <PolicyShareForm share={handleLock} />
+          )}
+        </Flex>
+
+        <Flex direction="column" gap="2">
+          <Text size="3" weight="medium">Open a time-locked file</Text>
+          <Flex gap="2" align="center">
+            <TextField.Root
+              placeholder="Walrus blob ID"
+              value={blobId}
+              onChange={(e) => setBlobId(e.target.value)}
+              style={{ flex: 1 }}
+            />
+            <Button variant="soft" onClick={handleTrack} disabled={!ready || !blobId.trim()}>
+              Open
+            </Button>
+          </Flex>
+        </Flex>
+
+        <Separator style={{ width: '100%' }} />
+
+        {entries.length === 0 && (
+          <Text size="2" color="gray">
+            No time-locked files yet. Lock some above, or open a link someone shared with you.
+          </Text>
+        )}
+
+        {entries.map(entry => (
+          <TimelockCard
+            key={entry.blobId}
+            entry={entry}
+            now={now}
+            connected={state.wallet.connected}
+            unlock={unlock}
+            untrack={untrack}
+          />
+        ))}
+      </Flex>
+    </Card>
+  );
+}
@@ -2,6 +2,7 @@ import React from 'react';
 import { Flex, Text, Card, Box } from '@radix-ui/themes';
 import { ConnectWalletButton } from '../common/WalletConnector';
 import { NetworkSwitcher } from '../common/NetworkSwitcher';
+import { RenewalStatus } from '../walrus/RenewalStatus';
 
 export function Header() {
   return (
@@ -25,6 +26,7 @@ export function Header() {
         </Flex>
         
         <Flex align="center" gap="4">
+          <RenewalStatus />
           <NetworkSwitcher />
           <ConnectWalletButton />
         </Flex>
@@ -17,6 +17,7 @@ const navigationItems = [
       { label: 'Store Files', path: ROUTES.WALRUS.STORE },
       { label: 'Quilt Manager', path: ROUTES.WALRUS.QUILT },
       { label: 'Manage Blobs', path: ROUTES.WALRUS.MANAGE },
+      { label: 'Shared Blobs', path: ROUTES.WALRUS.SHARED },
       { label: 'System Info', path: ROUTES.WALRUS.SYSTEM }
     ]
   },
@@ -3,6 +3,7 @@ import { Card, Flex, Text, Button, Select, TextArea, Badge, Box, Separator } fro
 import { useSeal } from '../../hooks/useSeal';
 import { useAppContext } from '../../context/AppContext';
 import { LoadingSpinner } from '../common/LoadingSpinner';
+import { PolicyPanelLinks } from '../integration/PolicyPanelLinks';
 import { formatBytes } from '../../utils/config';
 import { SealEncryptionResult, SealSessionKey } from '../../types/seal';
 
@@ -25,7 +26,6 @@ export function EncryptionPanel({ onEncryptionComplete }: EncryptionPanelProps)
   const [inputType, setInputType] = useState<'text' | 'file'>('text');
   const [textInput, setTextInput] = useState('');
   const [fileInput, setFileInput] = useState<File | null>(null);
-  const [policyType, setPolicyType] = useState<'private' | 'allowlist' | 'subscription' | 'timelock'>('private');
   const [encryptionResult, setEncryptionResult] = useState<SealEncryptionResult | null>(null);
   const [sessionKey, setSessionKey] = useState<SealSessionKey | null>(null);
   const [needsSignature, setNeedsSignature] = useState(false);
@@ -102,8 +102,11 @@ export function EncryptionPanel({ onEncryptionComplete }: EncryptionPanelProps)
     clearError();
     
     try {
-      // Create policy with unique ID
-      const policy = createPolicy(policyType);
+      // Only private policies can be built from the wallet alone; shared policies live in their own panels
+      const policy = createPolicy('private', { owner: state.wallet.account?.address });
+      if (!policy) {
+        return;
+      }
       
       console.log('Encrypting with policy:', policy);
       const result = await encrypt(data, policy);
@@ -122,10 +125,10 @@ export function EncryptionPanel({ onEncryptionComplete }: EncryptionPanelProps)
     inputType, 
     textInput, 
     fileInput, 
-    policyType, 
     sessionKey, 
     needsSignature, 
     state.wallet.connected, 
+    state.wallet.account, 
     encrypt, 
     createPolicy, 
     clearError, 
@@ -243,26 +246,8 @@ export function EncryptionPanel({ onEncryptionComplete }: EncryptionPanelProps)
         {/* Policy Type Selection */}
         <Flex direction="column" gap="2">
           <Text size="3" weight="medium">Access Policy</Text>
-          <select
-            value={policyType}
-            onChange={(e) => setPolicyType(e.target.value as any)}
-            style={{
-              padding: '8px',
-              border: '1px solid var(--gray-6)',
-              borderRadius: '4px'
-            }}
-          >
-            <option value="private">Private (Owner Only)</option>
-            <option value="allowlist">Allowlist (Specific Users)</option>
-            <option value="subscription">Subscription (Paid Access)</option>
-            <option value="timelock">Time-locked (Delayed Release)</option>
-          </select>
-          <Text size="2" color="gray">
-            {policyType === 'private' && 'Only you can decrypt this data'}
-            {policyType === 'allowlist' && 'Only allowlisted addresses can decrypt'}
-            {policyType === 'subscription' && 'Users must pay to decrypt'}
-            {policyType === 'timelock' && 'Data will be revealed after a set time'}
-          </Text>
+          <Badge variant="soft" style={{ alignSelf: 'flex-start' }}>Private (Owner Only)</Badge>
+          <PolicyPanelLinks />
         </Flex>
 
         {/* Error Display */}
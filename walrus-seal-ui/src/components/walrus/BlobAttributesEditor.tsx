@@ -0,0 +1,108 @@
+import { useState, useCallback } from 'react';
+import { Card, Flex, Text, Button, TextField } from '@radix-ui/themes';
+import { useWalrus } from '../../hooks/useWalrus';
+import { truncateAddress } from '../../utils/config';
+import type { WalrusBlobInfo } from '../../types/walrus';
+
+interface BlobAttributesEditorProps {
+  blob: WalrusBlobInfo;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+export function BlobAttributesEditor({ blob, onClose, onSaved }: BlobAttributesEditorProps) {
+  const { updateBlobAttributes, loading } = useWalrus();
+
+  const original = blob.attributes || {};
+  const [draft, setDraft] = useState<Record<string, string>>(original);
+  const [newKey, setNewKey] = useState('');
+  const [newValue, setNewValue] = useState('');
+
+  const changed = Object.fromEntries(
+    Object.entries(draft).filter(([key, value]) => original[key] !== value)
+  );
+  const removed = Object.keys(original).filter(key => !(key in draft));
+  const dirty = Object.keys(changed).length > 0 || removed.length > 0;
+
+  const addAttribute = useCallback(() => {
+    if (newKey && newValue) {
+      setDraft(prev => ({ ...prev, [newKey]: newValue }));
+      setNewKey('');
+      setNewValue('');
+    }
+  }, [newKey, newValue]);
+
+  const removeAttribute = useCallback((key: string) => {
+    setDraft(prev => {
+      const updated = { ...prev };
+      delete updated[key];
+      return updated;
+    });
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    const saved = await updateBlobAttributes(blob.id, changed, removed);
+    if (saved) {
+      onSaved?.();
+      onClose();
+    }
+  }, [blob.id, changed, removed, updateBlobAttributes, onSaved, onClose]);
+
+  return (
+    <Card style={{ padding: '16px', background: 'var(--accent-2)' }}>
+      <Flex direction="column" gap="3">
+        <Flex justify="between" align="center">
+          <Text size="3" weight="medium">
+            Attributes of <Text style={{ fontFamily: 'monospace' }}>{truncateAddress(blob.id, 10, 6)}</Text>
+          </Text>
+          <Button size="1" variant="ghost" onClick={onClose} disabled={loading}>✕</Button>
+        </Flex>
+
+        {Object.keys(draft).length === 0 && (
+          <Text size="2" color="gray">No attributes yet.</Text>
+        )}
+
+        {Object.entries(draft).map(([key, value]) => (
+          <Flex key={key} gap="2" align="center">
+            <Text size="2" weight="medium" style={{ minWidth: '140px' }}>{key}</Text>
+            <TextField.Root
+              value={value}
+              onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+              style={{ flex: 1 }}
+            />
+            <Button size="1" variant="ghost" color="red" onClick={() => removeAttribute(key)}>
+              Remove
+            </Button>
+          </Flex>
+        ))}
+
+        <Flex gap="2">
+          <TextField.Root
+            placeholder="Key"
+            value={newKey}
+            onChange={(e) => setNewKey(e.target.value)}
+            style={{ flex: 1 }}
+          />
+          <TextField.Root
+            placeholder="Value"
+            value={newValue}
+            onChange={(e) => setNewValue(e.target.value)}
+            style={{ flex: 1 }}
+          />
+          <Button size="2" variant="soft" onClick={addAttribute} disabled={!newKey || !newValue}>
+            Add
+          </Button>
+        </Flex>
+
+        <Flex gap="2" justify="end">
+          <Button variant="soft" color="gray" onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!dirty || loading}>
+            {loading ? 'Saving...' : '💾 Save Attributes'}
+          </Button>
+        </Flex>
+      </Flex>
+    </Card>
+  );
+}
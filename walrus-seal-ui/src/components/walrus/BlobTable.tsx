@@ -0,0 +1,473 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { Card, Flex, Text, Button, Checkbox, TextField, Badge, Table } from '@radix-ui/themes';
+import { useWalrus } from '../../hooks/useWalrus';
+import { useAppContext } from '../../context/AppContext';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { BlobAttributesEditor } from './BlobAttributesEditor';
+import { formatBytes, formatDate, formatTokenAmount, truncateAddress } from '../../utils/config';
+import { matchesAttributes } from '../../utils/walrus';
+import { APP_CONFIG, ERROR_MESSAGES } from '../../utils/constants';
+import type { OwnedBlobInfo, WalrusBlobInfo, ExtendBlobConfig, BlobDeletionPreview, WalrusStorageResource } from '../../types/walrus';
+
+function blobLabel(blob: WalrusBlobInfo): string {
+  return blob.attributes?.name ?? truncateAddress(blob.id, 10, 6);
+}
+
+type SortKey = 'id' | 'size' | 'epochsLeft' | 'status';
+
+interface SortState {
+  key: SortKey;
+  direction: 'asc' | 'desc';
+}
+
+export function BlobTable() {
+  const { state, dispatch } = useAppContext();
+  const { listBlobs, getCurrentEpoch, getExtendBatchCost, extendBatch, getDeletePreview, deleteBlob, read, ready, loading, error, clearError } = useWalrus();
+
+  const [blobs, setBlobs] = useState<OwnedBlobInfo[]>([]);
+  const [currentEpoch, setCurrentEpoch] = useState<number | null>(null);
+  // Keyed by object ID: one wallet can own several Blob objects with the same blob ID
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [sort, setSort] = useState<SortState>({ key: 'epochsLeft', direction: 'asc' });
+  const [page, setPage] = useState(0);
+  const [extendEpochs, setExtendEpochs] = useState(APP_CONFIG.walrus.defaultEpochs);
+  const [bulkAction, setBulkAction] = useState<string | null>(null);
+  const [attributeFilter, setAttributeFilter] = useState('');
+  const [encryptedOnly, setEncryptedOnly] = useState(false);
+  const [editingBlob, setEditingBlob] = useState<WalrusBlobInfo | null>(null);
+  const [extendQuotes, setExtendQuotes] = useState<ExtendBlobConfig[] | null>(null);
+
+  const refresh = useCallback(async () => {
+    const [ownedBlobs, epoch] = await Promise.all([listBlobs(), getCurrentEpoch()]);
+    setBlobs(ownedBlobs);
+    setCurrentEpoch(epoch);
+    setSelected(new Set());
+  }, [listBlobs, getCurrentEpoch]);
+
+  useEffect(() => {
+    if (ready) {
+      refresh();
+    }
+  }, [ready, refresh]);
+
+  const epochsLeft = useCallback((blob: WalrusBlobInfo) => {
+    if (blob.endEpoch === undefined || currentEpoch === null) {
+      return blob.epochs;
+    }
+    return Math.max(blob.endEpoch - currentEpoch, 0);
+  }, [currentEpoch]);
+
+  const filteredBlobs = useMemo(() => {
+    const [rawKey, ...rawValue] = attributeFilter.split('=');
+    const key = rawKey.trim();
+    const filter: Record<string, string> = encryptedOnly ? { encrypted: 'true' } : {};
+    if (key && rawValue.length > 0) {
+      filter[key] = rawValue.join('=').trim();
+    }
+
+    return blobs.filter(blob =>
+      matchesAttributes(blob.attributes, filter) && (!key || key in (blob.attributes || {}))
+    );
+  }, [blobs, attributeFilter, encryptedOnly]);
+
+  const sortedBlobs = useMemo(() => {
+    const value = (blob: WalrusBlobInfo): string | number => {
+      switch (sort.key) {
+        case 'id':
+          return blob.id;
+        case 'size':
+          return blob.size;
+        case 'epochsLeft':
+          return epochsLeft(blob);
+        case 'status':
+          return blob.status;
+      }
+    };
+
+    return [...filteredBlobs].sort((a, b) => {
+      const left = value(a);
+      const right = value(b);
+      const order = left < right ? -1 : left > right ? 1 : 0;
+      return sort.direction === 'asc' ? order : -order;
+    });
+  }, [filteredBlobs, sort, epochsLeft]);
+
+  const pageSize = APP_CONFIG.ui.pageSize;
+  const pageCount = Math.max(Math.ceil(sortedBlobs.length / pageSize), 1);
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageBlobs = sortedBlobs.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+  const selectedBlobs = blobs.filter(blob => selected.has(blob.objectId));
+
+  const toggleSort = useCallback((key: SortKey) => {
+    setSort(prev => ({
+      key,
+      direction: prev.key === key && prev.direction === 'asc' ? 'desc' : 'asc'
+    }));
+  }, []);
+
+  const toggleSelected = useCallback((objectId: string, checked: boolean) => {
+    setSelected(prev => {
+      const updated = new Set(prev);
+      if (checked) {
+        updated.add(objectId);
+      } else {
+        updated.delete(objectId);
+      }
+      return updated;
+    });
+  }, []);
+
+  const togglePage = useCallback((checked: boolean) => {
+    setSelected(prev => {
+      const updated = new Set(prev);
+      pageBlobs.forEach(blob => (checked ? updated.add(blob.objectId) : updated.delete(blob.objectId)));
+      return updated;
+    });
+  }, [pageBlobs]);
+
+  const handleQuoteExtend = useCallback(async () => {
+    setBulkAction('quote');
+
+    try {
+      // One read of the system state and the selected objects quotes the whole selection
+      const quotes = await getExtendBatchCost(
+        selectedBlobs.map(blob => ({ objectId: blob.objectId, epochs: extendEpochs }))
+      );
+      if (quotes) {
+        setExtendQuotes(quotes);
+      }
+    } finally {
+      setBulkAction(null);
+    }
+  }, [selectedBlobs, getExtendBatchCost, extendEpochs]);
+
+  const handleConfirmExtend = useCallback(async () => {
+    if (!extendQuotes) return;
+
+    setBulkAction('extend');
+    clearError();
+
+    try {
+      // One transaction for the whole selection, refused if the total moved above what was quoted
+      const acceptedCost = extendQuotes.reduce((total, quote) => total + quote.cost, 0);
+      const extended = await extendBatch(
+        extendQuotes.map(quote => ({ objectId: quote.objectId, epochs: quote.additionalEpochs })),
+        acceptedCost
+      );
+      if (extended) {
+        setExtendQuotes(null);
+        await refresh();
+      }
+    } finally {
+      setBulkAction(null);
+    }
+  }, [extendQuotes, extendBatch, refresh, clearError]);
+
+  const handleBulkDelete = useCallback(async () => {
+    setBulkAction('delete');
+    clearError();
+
+    try {
+      // Ask the chain rather than the table, which may be stale about deletability and expiry
+      const previews: { blob: OwnedBlobInfo; preview: BlobDeletionPreview }[] = [];
+      for (const blob of selectedBlobs) {
+        const preview = await getDeletePreview(blob.objectId);
+        if (!preview) return;
+        previews.push({ blob, preview });
+      }
+
+      const deletable = previews.filter(({ preview }) => preview.deletable && preview.remainingEpochs > 0);
+      if (deletable.length === 0) {
+        alert('None of the selected blobs can be deleted: permanent and expired blobs have no storage to reclaim.');
+        return;
+      }
+
+      const skipped = previews.length - deletable.length;
+      const message = [
+        `Delete ${deletable.length} blob${deletable.length !== 1 ? 's' : ''}?`,
+        '',
+        ...deletable.map(({ blob, preview }) =>
+          `• ${blobLabel(blob)} (object ${truncateAddress(preview.objectId, 10, 6)}) — ${preview.remainingEpochs} epoch${preview.remainingEpochs !== 1 ? 's' : ''} remaining (until epoch ${preview.storage.endEpoch})`
+        ),
+        '',
+        'The content becomes unavailable, and the remaining storage is returned to your wallet.',
+        ...(skipped > 0 ? [`${skipped} permanent or expired blob${skipped !== 1 ? 's' : ''} will be skipped.`] : [])
+      ].join('\n');
+      if (!window.confirm(message)) {
+        return;
+      }
+
+      const freed: WalrusStorageResource[] = [];
+      for (const { preview } of deletable) {
+        const storage = await deleteBlob(preview.objectId, preview.blobId);
+        if (!storage) break;
+        freed.push(storage);
+      }
+
+      // Offer the largest reclaimed resource, since it can hold the widest range of files
+      const [reusable] = [...freed].sort((a, b) => b.size - a.size);
+      if (reusable && window.confirm(
+        `Reclaimed ${formatBytes(reusable.size)} of storage valid until epoch ${reusable.endEpoch}. ` +
+        'Use it for your next upload instead of buying new storage?'
+      )) {
+        dispatch({ type: 'SET_REUSABLE_STORAGE', payload: reusable });
+      }
+
+      await refresh();
+    } finally {
+      setBulkAction(null);
+    }
+  }, [selectedBlobs, getDeletePreview, deleteBlob, refresh, clearError, dispatch]);
+
+  const handleBulkDownload = useCallback(async () => {
+    setBulkAction('download');
+    clearError();
+
+    try {
+      for (const blob of selectedBlobs) {
+        const data = await read(blob.id);
+        if (!data) {
+          console.error(`${ERROR_MESSAGES.DOWNLOAD_FAILED}: ${blob.id}`);
+          continue;
+        }
+
+        const url = URL.createObjectURL(data);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `walrus-blob-${blob.id}`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+      }
+    } finally {
+      setBulkAction(null);
+    }
+  }, [selectedBlobs, read, clearError]);
+
+  const sortIndicator = (key: SortKey) => (sort.key === key ? (sort.direction === 'asc' ? ' ▲' : ' ▼') : '');
+  const allPageSelected = pageBlobs.length > 0 && pageBlobs.every(blob => selected.has(blob.objectId));
+  const busy = loading || bulkAction !== null;
+
+  return (
+    <Card style={{ padding: '24px' }}>
+      <Flex direction="column" gap="4">
+        <Flex justify="between" align="center">
+          <Flex align="center" gap="3">
+            <Text size="5" weight="bold">🗂️ Owned Blobs</Text>
+            <Badge variant="soft">{blobs.length}</Badge>
+            {currentEpoch !== null && (
+              <Badge variant="soft" color="gray">Epoch {currentEpoch}</Badge>
+            )}
+          </Flex>
+          <Button variant="soft" onClick={refresh} disabled={!ready || busy}>
+            {loading && bulkAction === null ? <LoadingSpinner size="small" text="" /> : '🔄 Refresh'}
+          </Button>
+        </Flex>
+
+        {error && (
+          <Card style={{ padding: '12px', background: 'var(--red-2)', border: '1px solid var(--red-6)' }}>
+            <Text size="2" color="red">{error}</Text>
+          </Card>
+        )}
+
+        {!state.wallet.connected && (
+          <Text size="2" color="gray">{ERROR_MESSAGES.WALLET_NOT_CONNECTED}</Text>
+        )}
+
+        <Flex align="center" gap="3">
+          <TextField.Root
+            placeholder="Filter by attribute (key or key=value)"
+            value={attributeFilter}
+            onChange={(e) => {
+              setAttributeFilter(e.target.value);
+              setPage(0);
+            }}
+            style={{ flex: 1 }}
+          />
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <Checkbox
+              checked={encryptedOnly}
+              onCheckedChange={(checked) => {
+                setEncryptedOnly(checked === true);
+                setPage(0);
+              }}
+            />
+            <Text size="2">🔐 Encrypted only</Text>
+          </label>
+        </Flex>
+
+        {editingBlob && (
+          <BlobAttributesEditor
+            key={editingBlob.id}
+            blob={editingBlob}
+            onClose={() => setEditingBlob(null)}
+            onSaved={refresh}
+          />
+        )}
+
+        {selected.size > 0 && (
+          <Card style={{ padding: '12px', background: 'var(--accent-2)' }}>
+            <Flex align="center" gap="3" wrap="wrap">
+              <Text size="2" weight="medium">{selected.size} selected</Text>
+              <TextField.Root
+                type="number"
+                value={extendEpochs.toString()}
+                onChange={(e) => setExtendEpochs(Number(e.target.value))}
+                min="1"
+                max="53"
+                style={{ width: '80px' }}
+              />
+              <Button size="2" onClick={handleQuoteExtend} disabled={busy || extendEpochs < 1}>
+                {bulkAction === 'quote' ? 'Calculating...' : `⏳ Extend ${extendEpochs} epochs`}
+              </Button>
+              <Button size="2" color="red" variant="soft" onClick={handleBulkDelete} disabled={busy || !selectedBlobs.some(blob => blob.deletable)}>
+                {bulkAction === 'delete' ? 'Deleting...' : '🗑️ Delete'}
+              </Button>
+              <Button size="2" variant="soft" onClick={handleBulkDownload} disabled={busy}>
+                {bulkAction === 'download' ? 'Downloading...' : '📥 Download'}
+              </Button>
+              <Button size="2" variant="ghost" onClick={() => setSelected(new Set())} disabled={busy}>
+                Clear
+              </Button>
+            </Flex>
+          </Card>
+        )}
+
+        {extendQuotes && (
+          <Card style={{ padding: '12px', background: 'var(--amber-2)', border: '1px solid var(--amber-6)' }}>
+            <Flex direction="column" gap="2">
+              <Text size="2" weight="medium">
+                Extend {extendQuotes.length} blob{extendQuotes.length !== 1 ? 's' : ''} for{' '}
+                {formatTokenAmount(extendQuotes.reduce((total, quote) => total + quote.cost, 0), 'WAL')}
+              </Text>
+              {extendQuotes.map(quote => (
+                <Text key={quote.objectId} size="1" color="gray" style={{ fontFamily: 'monospace' }}>
+                  {truncateAddress(quote.blobId, 10, 6)}: epoch {quote.endEpoch} → {quote.newEndEpoch} ({formatTokenAmount(quote.cost, 'WAL')})
+                </Text>
+              ))}
+              <Flex gap="2" justify="end">
+                <Button size="2" variant="soft" color="gray" onClick={() => setExtendQuotes(null)} disabled={busy}>
+                  Cancel
+                </Button>
+                <Button size="2" onClick={handleConfirmExtend} disabled={busy}>
+                  {bulkAction === 'extend' ? 'Extending...' : 'Confirm & Pay'}
+                </Button>
+              </Flex>
+            </Flex>
+          </Card>
+        )}
+
+        <Table.Root variant="surface">
+          <Table.Header>
+            <Table.Row>
+              <Table.ColumnHeaderCell>
+                <Checkbox
+                  checked={allPageSelected}
+                  onCheckedChange={(checked) => togglePage(checked === true)}
+                  disabled={pageBlobs.length === 0}
+                />
+              </Table.ColumnHeaderCell>
+              <Table.ColumnHeaderCell style={{ cursor: 'pointer' }} onClick={() => toggleSort('id')}>
+                Blob ID{sortIndicator('id')}
+              </Table.ColumnHeaderCell>
+              <Table.ColumnHeaderCell style={{ cursor: 'pointer' }} onClick={() => toggleSort('size')}>
+                Size{sortIndicator('size')}
+              </Table.ColumnHeaderCell>
+              <Table.ColumnHeaderCell style={{ cursor: 'pointer' }} onClick={() => toggleSort('epochsLeft')}>
+                Epochs Left{sortIndicator('epochsLeft')}
+              </Table.ColumnHeaderCell>
+              <Table.ColumnHeaderCell>Uploaded</Table.ColumnHeaderCell>
+              <Table.ColumnHeaderCell style={{ cursor: 'pointer' }} onClick={() => toggleSort('status')}>
+                Status{sortIndicator('status')}
+              </Table.ColumnHeaderCell>
+              <Table.ColumnHeaderCell>Type</Table.ColumnHeaderCell>
+              <Table.ColumnHeaderCell>Attributes</Table.ColumnHeaderCell>
+            </Table.Row>
+          </Table.Header>
+
+          <Table.Body>
+            {pageBlobs.length === 0 && (
+              <Table.Row>
+                <Table.Cell colSpan={8}>
+                  <Text size="2" color="gray">
+                    {loading
+                      ? 'Loading blobs...'
+                      : blobs.length > 0 ? 'No blobs match the filter' : 'No blobs owned by this address'}
+                  </Text>
+                </Table.Cell>
+              </Table.Row>
+            )}
+
+            {pageBlobs.map(blob => (
+              <Table.Row key={blob.objectId}>
+                <Table.Cell>
+                  <Checkbox
+                    checked={selected.has(blob.objectId)}
+                    onCheckedChange={(checked) => toggleSelected(blob.objectId, checked === true)}
+                  />
+                </Table.Cell>
+                <Table.RowHeaderCell>
+                  <Text size="2" style={{ fontFamily: 'monospace' }} title={blob.id}>
+                    {truncateAddress(blob.id, 10, 6)}
+                  </Text>
+                </Table.RowHeaderCell>
+                <Table.Cell>{formatBytes(blob.size)}</Table.Cell>
+                <Table.Cell>
+                  <Text size="2" color={epochsLeft(blob) <= 1 ? 'red' : undefined}>
+                    {epochsLeft(blob)}
+                  </Text>
+                  {blob.endEpoch !== undefined && (
+                    <Text size="1" color="gray"> (ends {blob.endEpoch})</Text>
+                  )}
+                  {blob.expiry && (
+                    <Text size="1" color="gray" style={{ display: 'block' }}>{formatDate(blob.expiry)}</Text>
+                  )}
+                </Table.Cell>
+                <Table.Cell>
+                  <Text size="2">{formatDate(blob.uploadedAt)}</Text>
+                </Table.Cell>
+                <Table.Cell>
+                  <Badge color={blob.status === 'stored' ? 'green' : blob.status === 'expired' ? 'red' : 'orange'}>
+                    {blob.status}
+                  </Badge>
+                </Table.Cell>
+                <Table.Cell>
+                  <Badge color={blob.deletable ? 'blue' : 'purple'} variant="soft">
+                    {blob.deletable ? 'Deletable' : 'Permanent'}
+                  </Badge>
+                </Table.Cell>
+                <Table.Cell>
+                  <Flex gap="1" wrap="wrap" align="center">
+                    {Object.entries(blob.attributes || {}).map(([key, value]) => (
+                      <Badge key={key} size="1" variant="outline" color="gray">
+                        {key}: {value}
+                      </Badge>
+                    ))}
+                    <Button size="1" variant="ghost" onClick={() => setEditingBlob(blob)} disabled={busy}>
+                      ✏️
+                    </Button>
+                  </Flex>
+                </Table.Cell>
+              </Table.Row>
+            ))}
+          </Table.Body>
+        </Table.Root>
+
+        {pageCount > 1 && (
+          <Flex justify="between" align="center">
+            <Button variant="soft" onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0}>
+              ← Previous
+            </Button>
+            <Text size="2" color="gray">
+              Page {currentPage + 1} of {pageCount}
+            </Text>
+            <Button variant="soft" onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1}>
+              Next →
+            </Button>
+          </Flex>
+        )}
+      </Flex>
+    </Card>
+  );
+}
@@ -1,19 +1,32 @@
-import React, { useState, useCallback } from 'react';
-import { Card, Flex, Text, Button, Checkbox, TextField, Badge, Box, Separator } from '@radix-ui/themes';
+import React, { useState, useCallback, useMemo } from 'react';
+import { Card, Flex, Text, Button, Checkbox, TextField, Badge, Box, Separator, Progress, Select } from '@radix-ui/themes';
 import { useWalrus } from '../../hooks/useWalrus';
 import { useAppContext } from '../../context/AppContext';
 import { LoadingSpinner } from '../common/LoadingSpinner';
+import { CostEstimate } from './CostEstimate';
 import { validateFileSize, validateFileType, formatBytes } from '../../utils/config';
 import { APP_CONFIG, ERROR_MESSAGES, SUCCESS_MESSAGES } from '../../utils/constants';
+import type { WalrusFileStoreResult, WalrusStorePhase, WalrusUploadMode } from '../../types/walrus';
+
+const PHASE_LABELS: Record<WalrusStorePhase, string> = {
+  encode: 'Encoding locally',
+  purchase: 'Purchasing storage',
+  upload: 'Uploading',
+  commit: 'Purchasing, registering and certifying',
+  register: 'Registering blob',
+  certify: 'Certifying blob',
+  complete: 'Complete'
+};
 
 interface BlobUploaderProps {
   maxFiles?: number;
-  onUploadComplete?: (result: any) => void;
+  onUploadComplete?: (results: WalrusFileStoreResult[]) => void;
 }
 
 export function BlobUploader({ maxFiles = 5, onUploadComplete }: BlobUploaderProps) {
-  const { state } = useAppContext();
-  const { store, loading, error, clearError } = useWalrus();
+  const { state, dispatch } = useAppContext();
+  const { store, cancelStore, progress, loading, error, clearError } = useWalrus();
+  const reusableStorage = state.walrus.reusableStorage;
   
   const [files, setFiles] = useState<File[]>([]);
   const [epochs, setEpochs] = useState(APP_CONFIG.walrus.defaultEpochs);
@@ -23,6 +36,7 @@ export function BlobUploader({ maxFiles = 5, onUploadComplete }: BlobUploaderPro
   const [newAttributeKey, setNewAttributeKey] = useState('');
   const [newAttributeValue, setNewAttributeValue] = useState('');
   const [uploadSuccess, setUploadSuccess] = useState(false);
+  const [uploadResults, setUploadResults] = useState<WalrusFileStoreResult[]>([]);
 
   const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(event.target.files || []);
@@ -90,19 +104,32 @@ export function BlobUploader({ maxFiles = 5, onUploadComplete }: BlobUploaderPro
 
     clearError();
     setUploadSuccess(false);
+    setUploadResults([]);
 
     try {
       const result = await store(files, {
         epochs,
         permanent,
         deletable,
-        attributes: Object.keys(attributes).length > 0 ? attributes : undefined
+        attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+        reuseStorage: reusableStorage ?? undefined
       });
 
       if (result) {
-        setUploadSuccess(true);
-        setFiles([]);
-        setAttributes({});
+        if (reusableStorage && result[0]?.status === 'stored') {
+          dispatch({ type: 'SET_REUSABLE_STORAGE', payload: null });
+        }
+
+        const failedNames = new Set(
+          result.filter(fileResult => fileResult.status !== 'stored').map(fileResult => fileResult.fileName)
+        );
+
+        setUploadResults(result);
+        setUploadSuccess(failedNames.size < result.length);
+        setFiles(prev => prev.filter(file => failedNames.has(file.name)));
+        if (failedNames.size === 0) {
+          setAttributes({});
+        }
         
         if (onUploadComplete) {
           onUploadComplete(result);
@@ -113,9 +140,10 @@ export function BlobUploader({ maxFiles = 5, onUploadComplete }: BlobUploaderPro
     } catch (error) {
       console.error('Upload failed:', error);
     }
-  }, [files, epochs, permanent, deletable, attributes, state.wallet.connected, store, clearError, onUploadComplete]);
+  }, [files, epochs, permanent, deletable, attributes, reusableStorage, state.wallet.connected, store, clearError, dispatch, onUploadComplete]);
 
   const totalSize = files.reduce((total, file) => total + file.size, 0);
+  const fileSizes = useMemo(() => files.map(file => file.size), [files]);
 
   return (
     <Card style={{ padding: '24px' }}>
@@ -141,6 +169,33 @@ export function BlobUploader({ maxFiles = 5, onUploadComplete }: BlobUploaderPro
           </Card>
         )}
 
+        {uploadResults.length > 0 && (
+          <Card style={{ padding: '16px' }}>
+            <Text size="3" weight="medium" style={{ marginBottom: '12px', display: 'block' }}>
+              Upload Results
+            </Text>
+            <Flex direction="column" gap="2">
+              {uploadResults.map((fileResult, index) => (
+                <Flex key={index} justify="between" align="center" gap="3">
+                  <Flex direction="column" gap="1" style={{ minWidth: 0 }}>
+                    <Text size="2" weight="medium">{fileResult.fileName}</Text>
+                    {fileResult.result ? (
+                      <Text size="1" color="gray" style={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                        {fileResult.result.blobId}
+                      </Text>
+                    ) : (
+                      <Text size="1" color="red">{fileResult.error}</Text>
+                    )}
+                  </Flex>
+                  <Badge color={fileResult.status === 'stored' ? 'green' : fileResult.status === 'cancelled' ? 'gray' : 'red'}>
+                    {fileResult.status}
+                  </Badge>
+                </Flex>
+              ))}
+            </Flex>
+          </Card>
+        )}
+
         <Box>
           <input
             type="file"
@@ -220,6 +275,43 @@ export function BlobUploader({ maxFiles = 5, onUploadComplete }: BlobUploaderPro
               </label>
             </Flex>
           </Flex>
+
+          <Flex align="center" gap="2">
+            <Text size="2">Upload via</Text>
+            <Select.Root
+              value={state.network.walrusConfig.uploadMode ?? 'publisher'}
+              onValueChange={(value) => dispatch({ type: 'SET_WALRUS_UPLOAD_MODE', payload: value as WalrusUploadMode })}
+              disabled={loading}
+            >
+              <Select.Trigger />
+              <Select.Content>
+                <Select.Item value="publisher">Publisher</Select.Item>
+                <Select.Item value="direct">Direct to storage nodes</Select.Item>
+              </Select.Content>
+            </Select.Root>
+          </Flex>
+
+          {reusableStorage && (
+            <Card style={{ padding: '12px', background: 'var(--green-2)', border: '1px solid var(--green-6)' }}>
+              <Flex justify="between" align="center" gap="3">
+                <Text size="2">
+                  ♻️ The first file will use reclaimed storage ({formatBytes(reusableStorage.size)}, until epoch {reusableStorage.endEpoch})
+                  instead of new storage, so the epochs above do not apply to it.
+                </Text>
+                <Button
+                  size="1"
+                  variant="soft"
+                  color="gray"
+                  onClick={() => dispatch({ type: 'SET_REUSABLE_STORAGE', payload: null })}
+                  disabled={loading}
+                >
+                  Buy new instead
+                </Button>
+              </Flex>
+            </Card>
+          )}
+
+          <CostEstimate sizes={fileSizes} epochs={epochs} />
         </Flex>
 
         <Flex direction="column" gap="3">
@@ -261,6 +353,30 @@ export function BlobUploader({ maxFiles = 5, onUploadComplete }: BlobUploaderPro
           )}
         </Flex>
 
+        {progress && (
+          <Card style={{ padding: '16px' }}>
+            <Flex direction="column" gap="2">
+              <Flex justify="between" align="center">
+                <Text size="2" weight="medium">
+                  {PHASE_LABELS[progress.phase]} • {progress.fileName}
+                </Text>
+                <Text size="1" color="gray">
+                  File {progress.fileIndex + 1} of {progress.fileCount}
+                </Text>
+              </Flex>
+              <Progress value={progress.totalBytes > 0 ? (progress.bytesUploaded / progress.totalBytes) * 100 : 0} />
+              <Flex justify="between" align="center">
+                <Text size="1" color="gray">
+                  {formatBytes(progress.bytesUploaded)} / {formatBytes(progress.totalBytes)}
+                </Text>
+                <Button size="1" variant="soft" color="red" onClick={cancelStore}>
+                  Cancel
+                </Button>
+              </Flex>
+            </Flex>
+          </Card>
+        )}
+
         <Button
           size="3"
           onClick={handleUpload}
@@ -1,23 +1,48 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { Card, Flex, Text, Button, TextField, Badge, Box, Separator } from '@radix-ui/themes';
 import { useWalrus } from '../../hooks/useWalrus';
 import { LoadingSpinner } from '../common/LoadingSpinner';
-import { formatBytes, formatDate } from '../../utils/config';
+import { formatBytes, formatDate, truncateAddress } from '../../utils/config';
+import { APP_CONFIG } from '../../utils/constants';
+import type { WalrusBlobRange } from '../../types/walrus';
 
 interface BlobViewerProps {
   blobId?: string;
   onBlobLoad?: (blob: Blob, blobId: string) => void;
 }
 
+function isComplete(range: WalrusBlobRange): boolean {
+  return range.totalSize !== undefined && range.end + 1 >= range.totalSize;
+}
+
 export function BlobViewer({ blobId: initialBlobId, onBlobLoad }: BlobViewerProps) {
-  const { read, status, loading, error, clearError } = useWalrus();
+  const { read, readRange, getBlobUrl, status, loading, error, clearError } = useWalrus();
   
   const [blobId, setBlobId] = useState(initialBlobId || '');
-  const [blobData, setBlobData] = useState<Blob | null>(null);
+  const [content, setContent] = useState<WalrusBlobRange | null>(null);
   const [blobStatus, setBlobStatus] = useState<any>(null);
   const [blobUrl, setBlobUrl] = useState<string | null>(null);
-  const [isImage, setIsImage] = useState(false);
-  const [isText, setIsText] = useState(false);
+  const [verified, setVerified] = useState(false);
+
+  // Each preview holds one object URL, released when the content changes or the viewer unmounts
+  useEffect(() => {
+    if (!content) {
+      setBlobUrl(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(content.data);
+    setBlobUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [content]);
+
+  const showContent = useCallback((range: WalrusBlobRange) => {
+    setContent(range);
+
+    if (onBlobLoad && isComplete(range)) {
+      onBlobLoad(range.data, blobId);
+    }
+  }, [blobId, onBlobLoad]);
 
   const handleRead = useCallback(async () => {
     if (!blobId.trim()) {
@@ -25,51 +50,90 @@ export function BlobViewer({ blobId: initialBlobId, onBlobLoad }: BlobViewerProp
     }
 
     clearError();
-    setBlobData(null);
-    setBlobUrl(null);
-    setIsImage(false);
-    setIsText(false);
+    setContent(null);
+    setVerified(false);
 
     try {
-      const [blob, statusData] = await Promise.all([
-        read(blobId),
+      // Fetch only the head of the blob first; it is enough to sniff the type and preview large media
+      const [range, statusData] = await Promise.all([
+        readRange(blobId, 0, APP_CONFIG.walrus.previewBytes - 1),
         status(blobId)
       ]);
 
-      if (blob) {
-        setBlobData(blob);
-        setBlobStatus(statusData);
-        
-        const url = URL.createObjectURL(blob);
-        setBlobUrl(url);
-        
-        setIsImage(blob.type.startsWith('image/'));
-        setIsText(blob.type.startsWith('text/') || blob.type === 'application/json');
-        
-        if (onBlobLoad) {
-          onBlobLoad(blob, blobId);
+      if (!range) {
+        return;
+      }
+      setBlobStatus(statusData);
+
+      // Small blobs arrive whole, so check them against their ID before showing anything
+      if (isComplete(range)) {
+        const checked = await read(blobId, { verify: true });
+        if (!checked) {
+          return;
         }
+        setVerified(true);
       }
+      showContent(range);
     } catch (error) {
       console.error('Failed to read blob:', error);
     }
-  }, [blobId, read, status, clearError, onBlobLoad]);
-
-  const handleDownload = useCallback(() => {
-    if (blobData && blobUrl) {
-      const a = document.createElement('a');
-      a.href = blobUrl;
-      a.download = `walrus-blob-${blobId}`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
+  }, [blobId, readRange, read, status, clearError, showContent]);
+
+  const loadFullBlob = useCallback(async (): Promise<Blob | null> => {
+    if (content && isComplete(content)) {
+      return content.data;
+    }
+
+    const blob = await read(blobId, { verify: true });
+    if (blob) {
+      setVerified(true);
+      showContent({ data: blob, start: 0, end: blob.size - 1, totalSize: blob.size, mimeType: blob.type || 'application/octet-stream' });
+    }
+    return blob;
+  }, [content, blobId, read, showContent]);
+
+  const handleDownload = useCallback(async () => {
+    const blob = await loadFullBlob();
+    if (!blob) {
+      return;
     }
-  }, [blobData, blobUrl, blobId]);
+
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `walrus-blob-${blobId}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, [loadFullBlob, blobId]);
 
   const renderBlobContent = () => {
-    if (!blobData || !blobUrl) return null;
+    if (!content || !blobUrl) return null;
+
+    const { mimeType, totalSize } = content;
+    const complete = isComplete(content);
+
+    if (mimeType.startsWith('image/')) {
+      if (!complete) {
+        return (
+          <Card style={{ padding: '16px', textAlign: 'center' }}>
+            <Flex direction="column" align="center" gap="2">
+              <Text size="3" color="gray">
+                🖼️ Large image ({totalSize !== undefined ? formatBytes(totalSize) : 'unknown size'})
+              </Text>
+              <Button
+                variant="soft"
+                onClick={loadFullBlob}
+                disabled={loading || (totalSize !== undefined && totalSize > APP_CONFIG.walrus.fullPreviewMaxBytes)}
+              >
+                Load full image
+              </Button>
+            </Flex>
+          </Card>
+        );
+      }
 
-    if (isImage) {
       return (
         <Box style={{ textAlign: 'center' }}>
           <img
@@ -86,9 +150,27 @@ export function BlobViewer({ blobId: initialBlobId, onBlobLoad }: BlobViewerProp
       );
     }
 
-    if (isText && blobData.size < 10000) { // Only show text for small files
+    // Large media streams straight from the aggregator; the browser issues its own range requests
+    if (mimeType.startsWith('video/') || mimeType.startsWith('audio/')) {
+      const src = complete ? blobUrl : getBlobUrl(blobId) ?? blobUrl;
+      return mimeType.startsWith('video/') ? (
+        <video src={src} controls style={{ width: '100%', maxHeight: '400px', borderRadius: '8px' }} />
+      ) : (
+        <audio src={src} controls style={{ width: '100%' }} />
+      );
+    }
+
+    if (mimeType.startsWith('text/') || mimeType === 'application/json') {
       return (
-        <BlobTextContent blob={blobData} />
+        <Flex direction="column" gap="2">
+          {!complete && (
+            <Text size="1" color="gray">
+              Showing the first {formatBytes(content.data.size)}
+              {totalSize !== undefined && ` of ${formatBytes(totalSize)}`}
+            </Text>
+          )}
+          <BlobTextContent blob={content.data} />
+        </Flex>
       );
     }
 
@@ -98,7 +180,7 @@ export function BlobViewer({ blobId: initialBlobId, onBlobLoad }: BlobViewerProp
           📄 File preview not available for this type
         </Text>
         <Text size="2" color="gray" style={{ display: 'block', marginTop: '8px' }}>
-          Type: {blobData.type || 'unknown'} • Size: {formatBytes(blobData.size)}
+          Type: {mimeType} • Size: {totalSize !== undefined ? formatBytes(totalSize) : 'unknown'}
         </Text>
       </Card>
     );
@@ -135,7 +217,7 @@ export function BlobViewer({ blobId: initialBlobId, onBlobLoad }: BlobViewerProp
             <Flex direction="column" gap="2">
               <Flex justify="between" align="center">
                 <Text size="2" color="gray">Status</Text>
-                <Badge color={blobStatus.status === 'stored' ? 'green' : 'orange'}>
+                <Badge color={blobStatus.status === 'stored' ? 'green' : blobStatus.status === 'pending' ? 'orange' : 'red'}>
                   {blobStatus.status}
                 </Badge>
               </Flex>
@@ -144,9 +226,27 @@ export function BlobViewer({ blobId: initialBlobId, onBlobLoad }: BlobViewerProp
                 <Text size="2">{formatBytes(blobStatus.size)}</Text>
               </Flex>
               <Flex justify="between" align="center">
-                <Text size="2" color="gray">Epochs</Text>
+                <Text size="2" color="gray">Epochs Remaining</Text>
                 <Text size="2">{blobStatus.epochs}</Text>
               </Flex>
+              {blobStatus.certifiedEpoch !== undefined && (
+                <Flex justify="between" align="center">
+                  <Text size="2" color="gray">Certified Epoch</Text>
+                  <Text size="2">{blobStatus.certifiedEpoch}</Text>
+                </Flex>
+              )}
+              {blobStatus.endEpoch !== undefined && (
+                <Flex justify="between" align="center">
+                  <Text size="2" color="gray">End Epoch</Text>
+                  <Text size="2">{blobStatus.endEpoch}</Text>
+                </Flex>
+              )}
+              {blobStatus.objectId && (
+                <Flex justify="between" align="center">
+                  <Text size="2" color="gray">Sui Object</Text>
+                  <Text size="2" style={{ fontFamily: 'monospace' }}>{truncateAddress(blobStatus.objectId, 10, 6)}</Text>
+                </Flex>
+              )}
               {blobStatus.expiry && (
                 <Flex justify="between" align="center">
                   <Text size="2" color="gray">Expires</Text>
@@ -167,13 +267,17 @@ export function BlobViewer({ blobId: initialBlobId, onBlobLoad }: BlobViewerProp
           </Card>
         )}
 
-        {blobData && (
+        {content && (
           <>
             <Separator />
             
             <Flex justify="between" align="center">
-              <Text size="3" weight="medium">Blob Content</Text>
-              <Button onClick={handleDownload} variant="soft">
+              <Flex align="center" gap="2">
+                <Text size="3" weight="medium">Blob Content</Text>
+                <Badge variant="soft" color="gray">{content.mimeType}</Badge>
+                {verified && <Badge color="green">✓ Verified</Badge>}
+              </Flex>
+              <Button onClick={handleDownload} variant="soft" disabled={loading}>
                 📥 Download
               </Button>
             </Flex>
@@ -0,0 +1,109 @@
+import { useState, useEffect } from 'react';
+import { Card, Flex, Text } from '@radix-ui/themes';
+import { useWalrus } from '../../hooks/useWalrus';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { formatBytes, formatTokenAmount } from '../../utils/config';
+import type { WalrusCostEstimate } from '../../types/walrus';
+
+interface CostEstimateProps {
+  sizes: number[];
+  epochs: number;
+}
+
+interface CostTotals {
+  encodedSize: number;
+  storageUnits: number;
+  storageCost: number;
+  writeCost: number;
+  totalCost: number;
+  gasCost: number;
+}
+
+const ESTIMATE_DEBOUNCE_MS = 400;
+
+function sumEstimates(estimates: WalrusCostEstimate[]): CostTotals {
+  return estimates.reduce<CostTotals>((totals, estimate) => ({
+    encodedSize: totals.encodedSize + estimate.encodedSize,
+    storageUnits: totals.storageUnits + estimate.storageUnits,
+    storageCost: totals.storageCost + estimate.storageCost,
+    writeCost: totals.writeCost + estimate.writeCost,
+    totalCost: totals.totalCost + estimate.totalCost,
+    gasCost: totals.gasCost + estimate.gasCost
+  }), { encodedSize: 0, storageUnits: 0, storageCost: 0, writeCost: 0, totalCost: 0, gasCost: 0 });
+}
+
+export function CostEstimate({ sizes, epochs }: CostEstimateProps) {
+  const { estimateCost, ready } = useWalrus();
+
+  const [totals, setTotals] = useState<CostTotals | null>(null);
+  const [estimating, setEstimating] = useState(false);
+  const [unavailable, setUnavailable] = useState(false);
+
+  useEffect(() => {
+    if (!ready || sizes.length === 0 || epochs < 1) {
+      setTotals(null);
+      return;
+    }
+
+    let cancelled = false;
+    setEstimating(true);
+
+    // Each file is stored as its own blob, so estimate per file and add up
+    const timer = setTimeout(async () => {
+      const estimates = await Promise.all(sizes.map(size => estimateCost(size, epochs)));
+      if (cancelled) return;
+
+      const valid = estimates.filter((estimate): estimate is WalrusCostEstimate => estimate !== null);
+      setUnavailable(valid.length !== estimates.length);
+      setTotals(valid.length === estimates.length ? sumEstimates(valid) : null);
+      setEstimating(false);
+    }, ESTIMATE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [sizes, epochs, ready, estimateCost]);
+
+  if (sizes.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card variant="surface" style={{ padding: '12px' }}>
+      <Flex direction="column" gap="2">
+        <Flex justify="between" align="center">
+          <Text size="2" weight="medium">💰 Estimated Cost</Text>
+          {estimating && <LoadingSpinner size="small" text="" />}
+        </Flex>
+
+        {unavailable && !estimating && (
+          <Text size="2" color="gray">Cost estimate unavailable — the Walrus system object could not be read.</Text>
+        )}
+
+        {totals && (
+          <>
+            <Flex justify="between">
+              <Text size="2" color="gray">Encoded size</Text>
+              <Text size="2">{formatBytes(totals.encodedSize)} ({totals.storageUnits} units)</Text>
+            </Flex>
+            <Flex justify="between">
+              <Text size="2" color="gray">Storage ({epochs} epochs)</Text>
+              <Text size="2">{formatTokenAmount(totals.storageCost, 'WAL')}</Text>
+            </Flex>
+            <Flex justify="between">
+              <Text size="2" color="gray">Write fee</Text>
+              <Text size="2">{formatTokenAmount(totals.writeCost, 'WAL')}</Text>
+            </Flex>
+            <Flex justify="between">
+              <Text size="2" weight="medium">Total</Text>
+              <Text size="2" weight="medium">
+                ~{formatTokenAmount(totals.totalCost, 'WAL')} + ~{formatTokenAmount(totals.gasCost, 'SUI')} gas
+              </Text>
+            </Flex>
+          </>
+        )}
+      </Flex>
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+import React, { useState, useCallback, useRef } from 'react';
+import { Card, Flex, Text, Button, Badge, Progress } from '@radix-ui/themes';
+import { useWalrus } from '../../hooks/useWalrus';
+import { formatBytes, formatDate, truncateAddress } from '../../utils/config';
+import type { PendingStore } from '../../types/walrus';
+
+function pendingStep(entry: PendingStore): { label: string; color: 'orange' | 'blue' | 'purple' } {
+  if (entry.commitDigest && !entry.blobObjectId) return { label: 'Committed, awaiting confirmation', color: 'purple' };
+  if (entry.registerDigest && !entry.blobObjectId) return { label: 'Registered, awaiting confirmation', color: 'purple' };
+  if (entry.blobObjectId) return { label: 'Registered, awaiting certification', color: 'purple' };
+  if (entry.certificate) return { label: 'Uploaded, awaiting registration', color: 'blue' };
+  return { label: 'Storage purchased', color: 'orange' };
+}
+
+export function PendingUploads() {
+  const { pendingStores, resumeStore, discardPendingStore, cancelStore, progress, loading, error } = useWalrus();
+
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const chooseFile = useCallback((pendingId: string) => {
+    setActiveId(pendingId);
+    fileInputRef.current?.click();
+  }, []);
+
+  const handleFileSelect = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+
+    if (!file || !activeId) {
+      setActiveId(null);
+      return;
+    }
+
+    await resumeStore(activeId, file);
+    setActiveId(null);
+  }, [activeId, resumeStore]);
+
+  const handleDiscard = useCallback((entry: PendingStore) => {
+    const message = entry.storage
+      ? `Discard ${entry.fileName}? The purchased storage object ${entry.storage.objectId} stays in your wallet but will no longer be tracked here.`
+      : `Discard ${entry.fileName}?`;
+
+    if (window.confirm(message)) {
+      discardPendingStore(entry.id);
+    }
+  }, [discardPendingStore]);
+
+  if (pendingStores.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card style={{ padding: '24px' }}>
+      <Flex direction="column" gap="4">
+        <Flex align="center" gap="3">
+          <Text size="5" weight="bold">♻️ Unfinished Uploads</Text>
+          <Badge color="orange" variant="soft">{pendingStores.length}</Badge>
+        </Flex>
+        <Text size="2" color="gray">
+          These stores stopped part-way. Select the original file to continue from the last finished step,
+          or pick another file to reuse storage that was already purchased.
+        </Text>
+
+        {error && (
+          <Card style={{ padding: '12px', background: 'var(--red-2)', border: '1px solid var(--red-6)' }}>
+            <Text size="2" color="red">{error}</Text>
+          </Card>
+        )}
+
+        <input type="file" ref={fileInputRef} onChange={handleFileSelect} style={{ display: 'none' }} />
+
+        {pendingStores.map(entry => {
+          const step = pendingStep(entry);
+          const isActive = activeId === entry.id;
+
+          return (
+            <Card key={entry.id} style={{ padding: '16px' }}>
+              <Flex direction="column" gap="2">
+                <Flex justify="between" align="center">
+                  <Flex direction="column" gap="1">
+                    <Text size="2" weight="medium">{entry.fileName}</Text>
+                    <Text size="1" color="gray">
+                      {formatBytes(entry.size)} • {entry.epochs} epochs • updated {formatDate(new Date(entry.updatedAt))}
+                    </Text>
+                  </Flex>
+                  <Badge color={step.color}>{step.label}</Badge>
+                </Flex>
+
+                {entry.storage && (
+                  <Text size="1" color="gray" style={{ fontFamily: 'monospace' }}>
+                    Storage: {truncateAddress(entry.storage.objectId, 10, 6)} ({formatBytes(entry.storage.size)})
+                  </Text>
+                )}
+                {entry.blobObjectId && (
+                  <Text size="1" color="gray" style={{ fontFamily: 'monospace' }}>
+                    Blob object: {truncateAddress(entry.blobObjectId, 10, 6)}
+                  </Text>
+                )}
+                {entry.lastError && (
+                  <Text size="1" color="red">Last error: {entry.lastError}</Text>
+                )}
+
+                {isActive && progress && (
+                  <Progress value={progress.totalBytes > 0 ? (progress.bytesUploaded / progress.totalBytes) * 100 : 0} />
+                )}
+
+                <Flex gap="2" justify="end">
+                  {isActive && loading ? (
+                    <Button size="1" variant="soft" color="red" onClick={cancelStore}>
+                      Cancel
+                    </Button>
+                  ) : (
+                    <>
+                      <Button size="1" onClick={() => chooseFile(entry.id)} disabled={loading}>
+                        {entry.blobObjectId ? 'Resume' : 'Resume or reuse storage'}
+                      </Button>
+                      <Button size="1" variant="soft" color="red" onClick={() => handleDiscard(entry)} disabled={loading}>
+                        Discard
+                      </Button>
+                    </>
+                  )}
+                </Flex>
+              </Flex>
+            </Card>
+          );
+        })}
+      </Flex>
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState, useCallback, useMemo } from 'react';
+import { Card, Flex, Text, Button, Select, Badge, Box, Separator } from '@radix-ui/themes';
+import { useWalrus } from '../../hooks/useWalrus';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { formatBytes, formatDate, truncateAddress } from '../../utils/config';
+import { ERROR_MESSAGES } from '../../utils/constants';
+
+const ALL_TAGS = '__all__';
+
+export function QuiltBrowser() {
+  const { quilts, readQuilt, error } = useWalrus();
+
+  const [tagFilter, setTagFilter] = useState(ALL_TAGS);
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  const allTags = useMemo(() => {
+    const tags = new Set<string>();
+    for (const quilt of quilts) {
+      for (const patch of quilt.patches) {
+        patch.tags.forEach(tag => tags.add(tag));
+      }
+    }
+    return Array.from(tags).sort();
+  }, [quilts]);
+
+  const filteredQuilts = useMemo(() => {
+    const sorted = [...quilts].sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime());
+
+    if (tagFilter === ALL_TAGS) {
+      return sorted;
+    }
+
+    return sorted
+      .map(quilt => ({ ...quilt, patches: quilt.patches.filter(patch => patch.tags.includes(tagFilter)) }))
+      .filter(quilt => quilt.patches.length > 0);
+  }, [quilts, tagFilter]);
+
+  const handleDownload = useCallback(async (quiltId: string, identifier: string) => {
+    setDownloading(`${quiltId}/${identifier}`);
+
+    try {
+      const blob = await readQuilt(quiltId, identifier);
+      if (!blob) {
+        console.error(ERROR_MESSAGES.DOWNLOAD_FAILED);
+        return;
+      }
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = identifier;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } finally {
+      setDownloading(null);
+    }
+  }, [readQuilt]);
+
+  return (
+    <Card style={{ padding: '24px' }}>
+      <Flex direction="column" gap="4">
+        <Flex justify="between" align="center">
+          <Text size="5" weight="bold">📚 Stored Quilts</Text>
+          {allTags.length > 0 && (
+            <Select.Root value={tagFilter} onValueChange={setTagFilter}>
+              <Select.Trigger placeholder="Filter by tag" />
+              <Select.Content>
+                <Select.Item value={ALL_TAGS}>All tags</Select.Item>
+                {allTags.map(tag => (
+                  <Select.Item key={tag} value={tag}>{tag}</Select.Item>
+                ))}
+              </Select.Content>
+            </Select.Root>
+          )}
+        </Flex>
+
+        {error && (
+          <Card style={{ padding: '12px', background: 'var(--red-2)', border: '1px solid var(--red-6)' }}>
+            <Text size="2" color="red">{error}</Text>
+          </Card>
+        )}
+
+        {filteredQuilts.length === 0 && (
+          <Text size="2" color="gray">
+            {quilts.length === 0
+              ? 'No quilts stored from this browser yet. Build one to get started.'
+              : 'No patches match the selected tag.'}
+          </Text>
+        )}
+
+        {filteredQuilts.map(quilt => (
+          <Card key={quilt.id} style={{ padding: '16px' }}>
+            <Flex direction="column" gap="2">
+              <Flex justify="between" align="center">
+                <Text size="2" weight="medium" style={{ fontFamily: 'monospace' }}>
+                  {truncateAddress(quilt.id, 10, 6)}
+                </Text>
+                <Text size="1" color="gray">
+                  {formatBytes(quilt.size)} • {formatDate(quilt.uploadedAt)}
+                </Text>
+              </Flex>
+              <Separator style={{ width: '100%' }} />
+              {quilt.patches.map(patch => (
+                <Flex key={patch.identifier} justify="between" align="center" gap="3">
+                  <Box style={{ minWidth: 0 }}>
+                    <Text size="2" weight="medium" style={{ display: 'block' }}>{patch.identifier}</Text>
+                    <Flex gap="1" wrap="wrap" align="center">
+                      {patch.size !== undefined && (
+                        <Text size="1" color="gray">{formatBytes(patch.size)}</Text>
+                      )}
+                      {patch.tags.map(tag => (
+                        <Badge key={tag} size="1" variant="soft">{tag}</Badge>
+                      ))}
+                      {patch.metadata && Object.entries(patch.metadata).map(([key, value]) => (
+                        <Badge key={key} size="1" variant="outline" color="gray">
+                          {key}: {String(value)}
+                        </Badge>
+                      ))}
+                    </Flex>
+                  </Box>
+                  <Button
+                    size="1"
+                    variant="soft"
+                    onClick={() => handleDownload(quilt.id, patch.identifier)}
+                    disabled={downloading !== null}
+                  >
+                    {downloading === `${quilt.id}/${patch.identifier}` ? <LoadingSpinner size="small" text="" /> : '📥 Download'}
+                  </Button>
+                </Flex>
+              ))}
+            </Flex>
+          </Card>
+        ))}
+      </Flex>
+    </Card>
+  );
+}
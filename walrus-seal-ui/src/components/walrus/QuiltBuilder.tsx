@@ -0,0 +1,375 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { Card, Flex, Text, Button, Checkbox, TextField, Badge, Box, Separator } from '@radix-ui/themes';
+import { useWalrus } from '../../hooks/useWalrus';
+import { useAppContext } from '../../context/AppContext';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { CostEstimate } from './CostEstimate';
+import { validateFileSize, formatBytes, estimateEncodedSize, storageUnitsFromSize } from '../../utils/config';
+import { APP_CONFIG, ERROR_MESSAGES, SUCCESS_MESSAGES } from '../../utils/constants';
+import type { QuiltFile, WalrusQuiltResult } from '../../types/walrus';
+
+interface QuiltBuilderProps {
+  onUploadComplete?: (result: WalrusQuiltResult) => void;
+}
+
+interface DraftPatch {
+  file: File;
+  identifier: string;
+  tags: string;
+  metadata: Record<string, string>;
+}
+
+function toIdentifier(fileName: string, taken: Set<string>): string {
+  const base = fileName.replace(/^[^a-zA-Z0-9]+/, '').trimEnd() || 'file';
+  let identifier = base;
+  let suffix = 1;
+
+  while (taken.has(identifier)) {
+    identifier = `${base}-${suffix++}`;
+  }
+
+  return identifier;
+}
+
+export function QuiltBuilder({ onUploadComplete }: QuiltBuilderProps) {
+  const { state } = useAppContext();
+  const { storeQuilt, loading, error, clearError } = useWalrus();
+
+  const [patches, setPatches] = useState<DraftPatch[]>([]);
+  const [epochs, setEpochs] = useState(APP_CONFIG.walrus.defaultEpochs);
+  const [deletable, setDeletable] = useState(true);
+  const [dragActive, setDragActive] = useState(false);
+  const [metadataDrafts, setMetadataDrafts] = useState<Record<number, { key: string; value: string }>>({});
+  const [uploadSuccess, setUploadSuccess] = useState(false);
+  const [rejectedFiles, setRejectedFiles] = useState<string[]>([]);
+
+  const addFiles = useCallback((selectedFiles: File[]) => {
+    clearError();
+    setUploadSuccess(false);
+
+    const errors: string[] = [];
+    const taken = new Set(patches.map(patch => patch.identifier));
+    const added: DraftPatch[] = [];
+
+    for (const file of selectedFiles) {
+      if (!validateFileSize(file, APP_CONFIG.walrus.maxFileSize)) {
+        errors.push(`${file.name}: ${ERROR_MESSAGES.FILE_TOO_LARGE}`);
+        continue;
+      }
+
+      if (patches.length + added.length >= APP_CONFIG.walrus.maxQuiltPatches) {
+        errors.push(`${file.name}: ${ERROR_MESSAGES.QUILT_FULL}`);
+        continue;
+      }
+
+      const identifier = toIdentifier(file.name, taken);
+      taken.add(identifier);
+      added.push({ file, identifier, tags: '', metadata: {} });
+    }
+
+    setPatches([...patches, ...added]);
+    setRejectedFiles(errors);
+  }, [patches, clearError]);
+
+  const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files || []));
+    event.target.value = '';
+  }, [addFiles]);
+
+  const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(false);
+    addFiles(Array.from(event.dataTransfer.files));
+  }, [addFiles]);
+
+  const updatePatch = useCallback((index: number, data: Partial<DraftPatch>) => {
+    setPatches(prev => prev.map((patch, i) => (i === index ? { ...patch, ...data } : patch)));
+  }, []);
+
+  const removePatch = useCallback((index: number) => {
+    setPatches(prev => prev.filter((_, i) => i !== index));
+    setMetadataDrafts({});
+    setRejectedFiles([]);
+  }, []);
+
+  const addMetadata = useCallback((index: number) => {
+    const draft = metadataDrafts[index];
+    if (!draft?.key || !draft.value) {
+      return;
+    }
+
+    setPatches(prev => prev.map((patch, i) => (
+      i === index ? { ...patch, metadata: { ...patch.metadata, [draft.key]: draft.value } } : patch
+    )));
+    setMetadataDrafts(prev => ({ ...prev, [index]: { key: '', value: '' } }));
+  }, [metadataDrafts]);
+
+  const removeMetadata = useCallback((index: number, key: string) => {
+    setPatches(prev => prev.map((patch, i) => {
+      if (i !== index) return patch;
+      const metadata = { ...patch.metadata };
+      delete metadata[key];
+      return { ...patch, metadata };
+    }));
+  }, []);
+
+  const identifierCounts = patches.reduce<Record<string, number>>((counts, patch) => {
+    counts[patch.identifier] = (counts[patch.identifier] || 0) + 1;
+    return counts;
+  }, {});
+
+  const isValidIdentifier = (identifier: string) =>
+    /^[a-zA-Z0-9]/.test(identifier) && identifier === identifier.trimEnd() && identifierCounts[identifier] === 1;
+
+  const allIdentifiersValid = patches.every(patch => isValidIdentifier(patch.identifier));
+
+  const handleUpload = useCallback(async () => {
+    if (patches.length === 0) {
+      return;
+    }
+
+    if (!state.wallet.connected) {
+      alert(ERROR_MESSAGES.WALLET_NOT_CONNECTED);
+      return;
+    }
+
+    clearError();
+    setUploadSuccess(false);
+
+    const quiltFiles: QuiltFile[] = patches.map(patch => ({
+      file: patch.file,
+      identifier: patch.identifier,
+      tags: patch.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+      metadata: Object.keys(patch.metadata).length > 0 ? patch.metadata : undefined
+    }));
+
+    const result = await storeQuilt(quiltFiles, {
+      epochs,
+      deletable,
+      permanent: !deletable
+    });
+
+    if (result) {
+      setUploadSuccess(true);
+      setPatches([]);
+      setMetadataDrafts({});
+
+      if (onUploadComplete) {
+        onUploadComplete(result);
+      }
+
+      setTimeout(() => setUploadSuccess(false), 5000);
+    }
+  }, [patches, epochs, deletable, state.wallet.connected, storeQuilt, clearError, onUploadComplete]);
+
+  const totalSize = patches.reduce((total, patch) => total + patch.file.size, 0);
+  const encodedSize = patches.length > 0 ? estimateEncodedSize(totalSize) : 0;
+  const individualEncodedSize = patches.reduce((total, patch) => total + estimateEncodedSize(patch.file.size), 0);
+  const storageUnits = storageUnitsFromSize(encodedSize);
+  // The whole quilt is stored as a single blob
+  const quiltSizes = useMemo(() => (totalSize > 0 ? [totalSize] : []), [totalSize]);
+
+  return (
+    <Card style={{ padding: '24px' }}>
+      <Flex direction="column" gap="4">
+        <Flex align="center" gap="3">
+          <Text size="5" weight="bold">🧵 Build a Quilt</Text>
+          {!state.wallet.connected && (
+            <Badge color="orange" variant="soft">
+              Wallet Required
+            </Badge>
+          )}
+        </Flex>
+
+        {error && (
+          <Card style={{ padding: '12px', background: 'var(--red-2)', border: '1px solid var(--red-6)' }}>
+            <Text size="2" color="red">{error}</Text>
+          </Card>
+        )}
+
+        {uploadSuccess && (
+          <Card style={{ padding: '12px', background: 'var(--green-2)', border: '1px solid var(--green-6)' }}>
+            <Text size="2" color="green">{SUCCESS_MESSAGES.QUILT_UPLOADED}</Text>
+          </Card>
+        )}
+
+        <Box
+          onDragOver={(e) => { e.preventDefault(); setDragActive(true); }}
+          onDragLeave={() => setDragActive(false)}
+          onDrop={handleDrop}
+          style={{
+            padding: '24px',
+            border: `2px dashed ${dragActive ? 'var(--accent-8)' : 'var(--gray-6)'}`,
+            borderRadius: '8px',
+            background: dragActive ? 'var(--accent-2)' : 'var(--gray-2)',
+            textAlign: 'center'
+          }}
+        >
+          <Text size="3" style={{ display: 'block', marginBottom: '12px' }}>
+            Drop files here or choose them below
+          </Text>
+          <input type="file" multiple onChange={handleFileSelect} />
+          <Text size="2" color="gray" style={{ marginTop: '8px', display: 'block' }}>
+            Up to {APP_CONFIG.walrus.maxQuiltPatches} files, {formatBytes(APP_CONFIG.walrus.maxFileSize)} each
+          </Text>
+        </Box>
+
+        {rejectedFiles.length > 0 && (
+          <Card style={{ padding: '12px', background: 'var(--orange-2)', border: '1px solid var(--orange-6)' }}>
+            <Flex direction="column" gap="1">
+              <Text size="2" weight="medium" color="orange">
+                {rejectedFiles.length} file{rejectedFiles.length !== 1 ? 's were' : ' was'} not added
+              </Text>
+              {rejectedFiles.map(message => (
+                <Text key={message} size="1" color="orange">{message}</Text>
+              ))}
+            </Flex>
+          </Card>
+        )}
+
+        {patches.length > 0 && (
+          <Flex direction="column" gap="3">
+            <Text size="3" weight="medium">Patches ({patches.length})</Text>
+            {patches.map((patch, index) => (
+              <Card key={`${patch.file.name}-${index}`} style={{ padding: '12px' }}>
+                <Flex direction="column" gap="2">
+                  <Flex justify="between" align="center">
+                    <Text size="1" color="gray">
+                      {patch.file.name} • {formatBytes(patch.file.size)}
+                    </Text>
+                    <Button size="1" variant="soft" color="red" onClick={() => removePatch(index)}>
+                      Remove
+                    </Button>
+                  </Flex>
+
+                  <TextField.Root
+                    placeholder="Identifier"
+                    value={patch.identifier}
+                    color={isValidIdentifier(patch.identifier) ? undefined : 'red'}
+                    onChange={(e) => updatePatch(index, { identifier: e.target.value })}
+                    style={{ fontFamily: 'monospace' }}
+                  />
+                  {!isValidIdentifier(patch.identifier) && (
+                    <Text size="1" color="red">
+                      Identifiers must be unique, start with a letter or digit and have no trailing whitespace
+                    </Text>
+                  )}
+
+                  <TextField.Root
+                    placeholder="Tags (comma separated)"
+                    value={patch.tags}
+                    onChange={(e) => updatePatch(index, { tags: e.target.value })}
+                  />
+
+                  <Flex gap="2">
+                    <TextField.Root
+                      placeholder="Metadata key"
+                      value={metadataDrafts[index]?.key || ''}
+                      onChange={(e) => setMetadataDrafts(prev => ({
+                        ...prev,
+                        [index]: { key: e.target.value, value: prev[index]?.value || '' }
+                      }))}
+                      style={{ flex: 1 }}
+                    />
+                    <TextField.Root
+                      placeholder="Value"
+                      value={metadataDrafts[index]?.value || ''}
+                      onChange={(e) => setMetadataDrafts(prev => ({
+                        ...prev,
+                        [index]: { key: prev[index]?.key || '', value: e.target.value }
+                      }))}
+                      style={{ flex: 1 }}
+                    />
+                    <Button
+                      variant="soft"
+                      onClick={() => addMetadata(index)}
+                      disabled={!metadataDrafts[index]?.key || !metadataDrafts[index]?.value}
+                    >
+                      Add
+                    </Button>
+                  </Flex>
+
+                  {Object.keys(patch.metadata).length > 0 && (
+                    <Flex gap="2" wrap="wrap">
+                      {Object.entries(patch.metadata).map(([key, value]) => (
+                        <Badge key={key} variant="soft" style={{ cursor: 'pointer' }} onClick={() => removeMetadata(index, key)}>
+                          {key}: {value} ✕
+                        </Badge>
+                      ))}
+                    </Flex>
+                  )}
+                </Flex>
+              </Card>
+            ))}
+          </Flex>
+        )}
+
+        <Flex align="center" gap="4">
+          <Box>
+            <Text size="2" style={{ marginBottom: '4px', display: 'block' }}>Epochs</Text>
+            <TextField.Root
+              type="number"
+              value={epochs.toString()}
+              onChange={(e) => setEpochs(Number(e.target.value))}
+              min="1"
+              max="53"
+              style={{ width: '100px' }}
+            />
+          </Box>
+
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <Checkbox
+              checked={deletable}
+              onCheckedChange={(checked) => setDeletable(checked === true)}
+            />
+            <Text size="2">Deletable</Text>
+          </label>
+        </Flex>
+
+        {patches.length > 0 && (
+          <Card style={{ padding: '16px' }}>
+            <Text size="3" weight="medium" style={{ marginBottom: '12px', display: 'block' }}>
+              Quilt Preview
+            </Text>
+            <Flex direction="column" gap="2">
+              <Flex justify="between">
+                <Text size="2" color="gray">Total Size</Text>
+                <Text size="2">{formatBytes(totalSize)}</Text>
+              </Flex>
+              <Flex justify="between">
+                <Text size="2" color="gray">Encoded Size</Text>
+                <Text size="2">{formatBytes(encodedSize)}</Text>
+              </Flex>
+              <Flex justify="between">
+                <Text size="2" color="gray">Storage Units</Text>
+                <Text size="2">{storageUnits} units</Text>
+              </Flex>
+              <Separator style={{ margin: '4px 0' }} />
+              <Flex justify="between">
+                <Text size="2" color="gray">As separate blobs</Text>
+                <Text size="2">{storageUnitsFromSize(individualEncodedSize)} units</Text>
+              </Flex>
+              <CostEstimate sizes={quiltSizes} epochs={epochs} />
+            </Flex>
+          </Card>
+        )}
+
+        <Button
+          size="3"
+          onClick={handleUpload}
+          disabled={patches.length === 0 || !allIdentifiersValid || loading || !state.wallet.connected}
+          style={{ width: '100%' }}
+        >
+          {loading ? (
+            <Flex align="center" gap="2">
+              <LoadingSpinner size="small" text="" />
+              <Text>Uploading...</Text>
+            </Flex>
+          ) : (
+            `Store ${patches.length} patch${patches.length !== 1 ? 'es' : ''} as a quilt`
+          )}
+        </Button>
+      </Flex>
+    </Card>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState, useCallback, useEffect } from 'react';
+import { Card, Flex, Text, Button, Badge, Select, TextField, Table } from '@radix-ui/themes';
+import { useRenewal } from '../../hooks/useRenewal';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { formatDate, formatTokenAmount, truncateAddress } from '../../utils/config';
+import { APP_CONFIG } from '../../utils/constants';
+import type { ExtendBlobConfig, RenewalPolicy } from '../../types/walrus';
+
+function describeTarget(policy: RenewalPolicy): string {
+  return policy.target.type === 'blob'
+    ? `Blob ${truncateAddress(policy.target.blobId, 10, 6)}`
+    : `Tag ${policy.target.key}=${policy.target.value}`;
+}
+
+export function RenewalPanel() {
+  const {
+    policies,
+    queue,
+    expiring,
+    lastCheckedAt,
+    checkRenewals,
+    addPolicy,
+    removePolicy,
+    dismissRenewal,
+    quoteRenewals,
+    approveRenewals,
+    ready,
+    loading
+  } = useRenewal();
+
+  const [targetType, setTargetType] = useState<'blob' | 'attribute'>('attribute');
+  const [targetValue, setTargetValue] = useState('');
+  const [keepEpochsAhead, setKeepEpochsAhead] = useState(10);
+  const [approving, setApproving] = useState(false);
+  const [quotes, setQuotes] = useState<ExtendBlobConfig[] | null>(null);
+
+  // Re-quote whenever the queue changes, so the approved total always matches what is listed
+  useEffect(() => {
+    setQuotes(null);
+    if (!ready || queue.length === 0) {
+      return;
+    }
+
+    let cancelled = false;
+    quoteRenewals(queue).then(result => {
+      if (!cancelled) setQuotes(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [ready, queue, quoteRenewals]);
+
+  const handleAddPolicy = useCallback(() => {
+    const value = targetValue.trim();
+    if (!value) return;
+
+    if (targetType === 'blob') {
+      addPolicy({ type: 'blob', blobId: value }, keepEpochsAhead);
+    } else {
+      const [key, ...rest] = value.split('=');
+      if (!key.trim() || rest.length === 0) return;
+      addPolicy({ type: 'attribute', key: key.trim(), value: rest.join('=').trim() }, keepEpochsAhead);
+    }
+
+    setTargetValue('');
+  }, [targetType, targetValue, keepEpochsAhead, addPolicy]);
+
+  const handleApprove = useCallback(async () => {
+    if (!quotes) return;
+
+    setApproving(true);
+    try {
+      await approveRenewals(quotes);
+    } finally {
+      setApproving(false);
+    }
+  }, [quotes, approveRenewals]);
+
+  const policyById = new Map(policies.map(policy => [policy.id, policy]));
+  const costByObjectId = new Map(quotes?.map(quote => [quote.objectId, quote.cost]));
+  const totalCost = quotes?.reduce((total, quote) => total + quote.cost, 0);
+
+  return (
+    <Card style={{ padding: '24px' }}>
+      <Flex direction="column" gap="4">
+        <Flex justify="between" align="center">
+          <Flex align="center" gap="3">
+            <Text size="5" weight="bold">🔁 Automatic Renewal</Text>
+            {expiring.length > 0 && (
+              <Badge color="red">{expiring.length} expiring soon</Badge>
+            )}
+          </Flex>
+          <Flex align="center" gap="3">
+            {lastCheckedAt && (
+              <Text size="1" color="gray">Checked {formatDate(lastCheckedAt)}</Text>
+            )}
+            <Button variant="soft" onClick={checkRenewals} disabled={!ready || loading}>
+              {loading && !approving ? <LoadingSpinner size="small" text="" /> : '🔍 Check now'}
+            </Button>
+          </Flex>
+        </Flex>
+
+        <Text size="2" color="gray">
+          Policies keep matching blobs a number of epochs ahead of the current epoch. Expiries are checked
+          every {APP_CONFIG.walrus.renewalCheckInterval / 60000} minutes while the app is open, and the
+          needed extensions are queued for a single approval.
+        </Text>
+
+        <Flex direction="column" gap="2">
+          <Text size="3" weight="medium">Policies</Text>
+          {policies.length === 0 && (
+            <Text size="2" color="gray">No renewal policies yet.</Text>
+          )}
+          {policies.map(policy => (
+            <Flex key={policy.id} justify="between" align="center">
+              <Text size="2">
+                {describeTarget(policy)} • keep {policy.keepEpochsAhead} epochs ahead
+              </Text>
+              <Button size="1" variant="ghost" color="red" onClick={() => removePolicy(policy.id)}>
+                Remove
+              </Button>
+            </Flex>
+          ))}
+
+          <Flex gap="2" align="center">
+            <Select.Root value={targetType} onValueChange={(value) => setTargetType(value as 'blob' | 'attribute')}>
+              <Select.Trigger />
+              <Select.Content>
+                <Select.Item value="attribute">Attribute tag</Select.Item>
+                <Select.Item value="blob">Blob ID</Select.Item>
+              </Select.Content>
+            </Select.Root>
+            <TextField.Root
+              placeholder={targetType === 'blob' ? 'Blob ID' : 'key=value'}
+              value={targetValue}
+              onChange={(e) => setTargetValue(e.target.value)}
+              style={{ flex: 1 }}
+            />
+            <TextField.Root
+              type="number"
+              value={keepEpochsAhead.toString()}
+              onChange={(e) => setKeepEpochsAhead(Number(e.target.value))}
+              min="1"
+              max={APP_CONFIG.walrus.maxEpochsAhead.toString()}
+              style={{ width: '80px' }}
+            />
+            <Button onClick={handleAddPolicy} disabled={!ready || !targetValue.trim() || keepEpochsAhead < 1}>
+              Add Policy
+            </Button>
+          </Flex>
+        </Flex>
+
+        <Flex direction="column" gap="2">
+          <Flex justify="between" align="center">
+            <Text size="3" weight="medium">Renewal Queue</Text>
+            <Flex align="center" gap="3">
+              {queue.length > 0 && (
+                <Text size="2" color="gray">
+                  {totalCost !== undefined ? `Total ${formatTokenAmount(totalCost, 'WAL')}` : 'Quoting...'}
+                </Text>
+              )}
+              <Button onClick={handleApprove} disabled={queue.length === 0 || !quotes || loading}>
+                {approving ? 'Extending...' : `✅ Approve ${queue.length} extension${queue.length !== 1 ? 's' : ''}`}
+              </Button>
+            </Flex>
+          </Flex>
+
+          {queue.length === 0 ? (
+            <Text size="2" color="gray">Nothing to renew right now.</Text>
+          ) : (
+            <Table.Root variant="surface">
+              <Table.Header>
+                <Table.Row>
+                  <Table.ColumnHeaderCell>Blob ID</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell>End Epoch</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell>Extend By</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell>Cost</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell>Policy</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell />
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {queue.map(item => {
+                  const policy = policyById.get(item.policyId);
+                  const cost = costByObjectId.get(item.objectId);
+                  return (
+                    <Table.Row key={item.blobId}>
+                      <Table.RowHeaderCell>
+                        <Text size="2" style={{ fontFamily: 'monospace' }}>{truncateAddress(item.blobId, 10, 6)}</Text>
+                      </Table.RowHeaderCell>
+                      <Table.Cell>{item.endEpoch}</Table.Cell>
+                      <Table.Cell>{item.extendEpochs} epochs</Table.Cell>
+                      <Table.Cell>{cost !== undefined ? formatTokenAmount(cost, 'WAL') : '—'}</Table.Cell>
+                      <Table.Cell>{policy ? describeTarget(policy) : '—'}</Table.Cell>
+                      <Table.Cell>
+                        <Button size="1" variant="ghost" onClick={() => dismissRenewal(item.blobId)} disabled={loading}>
+                          Skip
+                        </Button>
+                      </Table.Cell>
+                    </Table.Row>
+                  );
+                })}
+              </Table.Body>
+            </Table.Root>
+          )}
+        </Flex>
+      </Flex>
+    </Card>
+  );
+}
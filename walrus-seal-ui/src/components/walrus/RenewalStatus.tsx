@@ -0,0 +1,34 @@
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@radix-ui/themes';
+import { useRenewal } from '../../hooks/useRenewal';
+import { APP_CONFIG, ROUTES } from '../../utils/constants';
+
+export function RenewalStatus() {
+  const { expiring, queue, checkRenewals, ready } = useRenewal();
+
+  // Expiries are checked for as long as the app stays open
+  useEffect(() => {
+    if (!ready) {
+      return;
+    }
+
+    checkRenewals();
+    const timer = setInterval(checkRenewals, APP_CONFIG.walrus.renewalCheckInterval);
+    return () => clearInterval(timer);
+  }, [ready, checkRenewals]);
+
+  if (expiring.length === 0 && queue.length === 0) {
+    return null;
+  }
+
+  return (
+    <Link to={ROUTES.WALRUS.MANAGE} style={{ textDecoration: 'none' }}>
+      <Badge color={expiring.length > 0 ? 'red' : 'orange'} size="2">
+        {expiring.length > 0
+          ? `⚠️ ${expiring.length} blob${expiring.length !== 1 ? 's' : ''} expire within ${APP_CONFIG.walrus.renewalWarningEpochs} epochs`
+          : `⏳ ${queue.length} renewal${queue.length !== 1 ? 's' : ''} awaiting approval`}
+      </Badge>
+    </Link>
+  );
+}
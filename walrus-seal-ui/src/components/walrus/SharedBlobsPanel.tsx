@@ -0,0 +1,266 @@
+import { useState, useCallback } from 'react';
+import { Card, Flex, Text, Button, Badge, TextField, Table, Separator } from '@radix-ui/themes';
+import { useSharedBlobs } from '../../hooks/useSharedBlobs';
+import { useAppContext } from '../../context/AppContext';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { formatBytes, formatDate, formatTokenAmount, truncateAddress } from '../../utils/config';
+import type { SharedBlobConfig, SharedBlobContribution, SharedBlobInfo } from '../../types/walrus';
+
+const FROST_PER_WAL = 1_000_000_000;
+
+type SharedBlobActions = Pick<ReturnType<typeof useSharedBlobs>, 'quoteFunding' | 'fund' | 'contributions' | 'untrack' | 'loading'>;
+
+interface SharedBlobCardProps extends SharedBlobActions {
+  sharedBlob: SharedBlobInfo;
+  canFund: boolean;
+}
+
+function SharedBlobCard({ sharedBlob, canFund, quoteFunding, fund, contributions, untrack, loading }: SharedBlobCardProps) {
+  const [epochs, setEpochs] = useState(5);
+  const [quote, setQuote] = useState<SharedBlobConfig | null>(null);
+  const [history, setHistory] = useState<SharedBlobContribution[] | null>(null);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+
+  const handleQuote = useCallback(async () => {
+    setQuote(await quoteFunding(sharedBlob.sharedObjectId, epochs));
+  }, [quoteFunding, sharedBlob.sharedObjectId, epochs]);
+
+  const handleFund = useCallback(async () => {
+    if (!quote) return;
+
+    const newEndEpoch = await fund(quote);
+    if (newEndEpoch !== null) {
+      setQuote(null);
+      if (history) {
+        setHistory(await contributions(sharedBlob.sharedObjectId));
+      }
+    }
+  }, [quote, fund, history, contributions, sharedBlob.sharedObjectId]);
+
+  const toggleHistory = useCallback(async () => {
+    if (history) {
+      setHistory(null);
+      return;
+    }
+
+    setLoadingHistory(true);
+    try {
+      setHistory(await contributions(sharedBlob.sharedObjectId));
+    } finally {
+      setLoadingHistory(false);
+    }
+  }, [history, contributions, sharedBlob.sharedObjectId]);
+
+  return (
+    <Card style={{ padding: '16px' }}>
+      <Flex direction="column" gap="3">
+        <Flex justify="between" align="center">
+          <Flex direction="column" gap="1">
+            <Text size="2" weight="medium" style={{ fontFamily: 'monospace' }}>
+              {truncateAddress(sharedBlob.blobId, 10, 6)}
+            </Text>
+            <Text size="1" color="gray">
+              Shared object {truncateAddress(sharedBlob.sharedObjectId, 8, 6)} • {formatBytes(sharedBlob.size)}
+            </Text>
+          </Flex>
+          <Flex align="center" gap="2">
+            <Badge variant="soft">Ends epoch {sharedBlob.endEpoch}</Badge>
+            <Badge variant="soft" color="green">{formatTokenAmount(sharedBlob.funds, 'WAL')} pooled</Badge>
+            <Button size="1" variant="ghost" color="red" onClick={() => untrack(sharedBlob.sharedObjectId)}>
+              Untrack
+            </Button>
+          </Flex>
+        </Flex>
+
+        <Flex gap="2" align="center">
+          <Text size="2">Fund</Text>
+          <TextField.Root
+            type="number"
+            value={epochs.toString()}
+            onChange={(e) => {
+              setEpochs(Math.max(1, Number(e.target.value)));
+              setQuote(null);
+            }}
+            style={{ width: '80px' }}
+          />
+          <Text size="2">more epochs</Text>
+          <Button size="1" variant="soft" onClick={handleQuote} disabled={!canFund || loading}>
+            Get quote
+          </Button>
+          <Button size="1" variant="soft" color="gray" onClick={toggleHistory} disabled={loadingHistory}>
+            {loadingHistory ? <LoadingSpinner size="small" text="" /> : history ? 'Hide contributions' : '📜 Contributions'}
+          </Button>
+        </Flex>
+
+        {quote && (
+          <Card style={{ padding: '12px', background: 'var(--blue-2)', border: '1px solid var(--blue-6)' }}>
+            <Flex justify="between" align="center">
+              <Text size="2">
+                {quote.epochs} epochs for {formatTokenAmount(quote.cost, 'WAL')} • ends at epoch {sharedBlob.endEpoch + quote.epochs}
+              </Text>
+              <Flex gap="2">
+                <Button size="1" variant="soft" color="gray" onClick={() => setQuote(null)}>
+                  Cancel
+                </Button>
+                <Button size="1" onClick={handleFund} disabled={loading}>
+                  {loading ? <LoadingSpinner size="small" text="" /> : 'Confirm & Pay'}
+                </Button>
+              </Flex>
+            </Flex>
+          </Card>
+        )}
+
+        {history && (
+          <>
+            <Separator style={{ width: '100%' }} />
+            {history.length === 0 ? (
+              <Text size="2" color="gray">No contributions recorded yet.</Text>
+            ) : (
+              <Table.Root size="1">
+                <Table.Header>
+                  <Table.Row>
+                    <Table.ColumnHeaderCell>Contributor</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell>Amount</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell>Date</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell>Transaction</Table.ColumnHeaderCell>
+                  </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                  {history.map(contribution => (
+                    <Table.Row key={contribution.digest}>
+                      <Table.Cell>
+                        <Text size="1" style={{ fontFamily: 'monospace' }}>{truncateAddress(contribution.contributor)}</Text>
+                      </Table.Cell>
+                      <Table.Cell>{formatTokenAmount(contribution.amount, 'WAL')}</Table.Cell>
+                      <Table.Cell>{contribution.timestamp ? formatDate(contribution.timestamp) : '—'}</Table.Cell>
+                      <Table.Cell>
+                        <Text size="1" style={{ fontFamily: 'monospace' }}>{truncateAddress(contribution.digest, 8, 6)}</Text>
+                      </Table.Cell>
+                    </Table.Row>
+                  ))}
+                </Table.Body>
+              </Table.Root>
+            )}
+          </>
+        )}
+      </Flex>
+    </Card>
+  );
+}
+
+export function SharedBlobsPanel() {
+  const { state } = useAppContext();
+  const { sharedBlobs, share, track, untrack, refresh, quoteFunding, fund, contributions, ready, loading, error } = useSharedBlobs();
+
+  const [blobId, setBlobId] = useState('');
+  const [initialFunds, setInitialFunds] = useState('');
+  const [sharedObjectId, setSharedObjectId] = useState('');
+  const [sharing, setSharing] = useState(false);
+
+  const handleShare = useCallback(async () => {
+    const id = blobId.trim();
+    if (!id) return;
+
+    setSharing(true);
+    try {
+      const funds = Math.round(Number(initialFunds || 0) * FROST_PER_WAL);
+      if (await share(id, funds)) {
+        setBlobId('');
+        setInitialFunds('');
+      }
+    } finally {
+      setSharing(false);
+    }
+  }, [blobId, initialFunds, share]);
+
+  const handleTrack = useCallback(async () => {
+    const id = sharedObjectId.trim();
+    if (!id) return;
+
+    if (await track(id)) {
+      setSharedObjectId('');
+    }
+  }, [sharedObjectId, track]);
+
+  return (
+    <Card style={{ padding: '24px' }}>
+      <Flex direction="column" gap="4">
+        <Flex justify="between" align="center">
+          <Text size="5" weight="bold">🤝 Shared Blobs</Text>
+          <Button variant="soft" onClick={refresh} disabled={!ready}>
+            🔄 Refresh
+          </Button>
+        </Flex>
+
+        <Text size="2" color="gray">
+          Wrapping a blob into a shared object gives up ownership so that any wallet can pay for more epochs.
+          Contributions are pooled on-chain and spent when the blob is extended.
+        </Text>
+
+        {error && (
+          <Card style={{ padding: '12px', background: 'var(--red-2)', border: '1px solid var(--red-6)' }}>
+            <Text size="2" color="red">{error}</Text>
+          </Card>
+        )}
+
+        <Flex direction="column" gap="2">
+          <Text size="3" weight="medium">Share an owned blob</Text>
+          <Flex gap="2" align="center">
+            <TextField.Root
+              placeholder="Blob ID"
+              value={blobId}
+              onChange={(e) => setBlobId(e.target.value)}
+              style={{ flex: 1 }}
+            />
+            <TextField.Root
+              type="number"
+              placeholder="Initial WAL (optional)"
+              value={initialFunds}
+              onChange={(e) => setInitialFunds(e.target.value)}
+              style={{ width: '180px' }}
+            />
+            <Button onClick={handleShare} disabled={!state.wallet.connected || !blobId.trim() || sharing || loading}>
+              {sharing ? <LoadingSpinner size="small" text="" /> : 'Share'}
+            </Button>
+          </Flex>
+        </Flex>
+
+        <Flex direction="column" gap="2">
+          <Text size="3" weight="medium">Track a shared blob</Text>
+          <Flex gap="2" align="center">
+            <TextField.Root
+              placeholder="Shared blob object ID"
+              value={sharedObjectId}
+              onChange={(e) => setSharedObjectId(e.target.value)}
+              style={{ flex: 1 }}
+            />
+            <Button variant="soft" onClick={handleTrack} disabled={!ready || !sharedObjectId.trim()}>
+              Track
+            </Button>
+          </Flex>
+        </Flex>
+
+        <Separator style={{ width: '100%' }} />
+
+        {sharedBlobs.length === 0 && (
+          <Text size="2" color="gray">
+            No shared blobs tracked yet. Share one of your blobs or paste a shared blob object ID.
+          </Text>
+        )}
+
+        {sharedBlobs.map(sharedBlob => (
+          <SharedBlobCard
+            key={sharedBlob.sharedObjectId}
+            sharedBlob={sharedBlob}
+            canFund={state.wallet.connected}
+            quoteFunding={quoteFunding}
+            fund={fund}
+            contributions={contributions}
+            untrack={untrack}
+            loading={loading}
+          />
+        ))}
+      </Flex>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect } from 'react';
+import { Card, Flex, Text, Button, Badge, Grid, Progress, Table } from '@radix-ui/themes';
+import { useWalrus } from '../../hooks/useWalrus';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { formatBytes, formatDate, formatDuration } from '../../utils/config';
+import type { WalrusSystemInfo } from '../../types/walrus';
+
+const HEALTH_COLORS: Record<WalrusSystemInfo['networkHealth'], 'green' | 'orange' | 'red'> = {
+  healthy: 'green',
+  degraded: 'orange',
+  unhealthy: 'red'
+};
+
+export function SystemOverview() {
+  const { systemInfo, getSystemInfo, ready, loading, error } = useWalrus();
+
+  useEffect(() => {
+    if (ready) {
+      getSystemInfo();
+    }
+  }, [ready, getSystemInfo]);
+
+  if (!systemInfo) {
+    return (
+      <Card style={{ padding: '24px' }}>
+        {loading ? (
+          <LoadingSpinner text="Reading Walrus system state..." />
+        ) : (
+          <Text size="2" color={error ? 'red' : 'gray'}>
+            {error || 'System information is loaded once your wallet is connected.'}
+          </Text>
+        )}
+      </Card>
+    );
+  }
+
+  const epochEnd = systemInfo.epochStartTime.getTime() + systemInfo.epochDuration;
+  const epochElapsed = Date.now() - systemInfo.epochStartTime.getTime();
+  const epochProgress = Math.min((epochElapsed / systemInfo.epochDuration) * 100, 100);
+  const usedStorage = systemInfo.totalStorage - systemInfo.availableStorage;
+  const usedPercent = systemInfo.totalStorage > 0 ? (usedStorage / systemInfo.totalStorage) * 100 : 0;
+
+  return (
+    <Flex direction="column" gap="6">
+      <Card style={{ padding: '24px' }}>
+        <Flex direction="column" gap="4">
+          <Flex justify="between" align="center">
+            <Flex align="center" gap="3">
+              <Text size="5" weight="bold">🌐 Network Status</Text>
+              <Badge color={HEALTH_COLORS[systemInfo.networkHealth]} size="2">
+                {systemInfo.networkHealth}
+              </Badge>
+            </Flex>
+            <Button variant="soft" onClick={() => getSystemInfo()} disabled={loading}>
+              {loading ? <LoadingSpinner size="small" text="" /> : '🔄 Refresh'}
+            </Button>
+          </Flex>
+
+          {error && (
+            <Card style={{ padding: '12px', background: 'var(--red-2)', border: '1px solid var(--red-6)' }}>
+              <Text size="2" color="red">{error}</Text>
+            </Card>
+          )}
+
+          <Grid columns="3" gap="4">
+            <Card variant="surface" style={{ padding: '16px' }}>
+              <Flex direction="column" gap="2">
+                <Text size="2" color="gray">Current Epoch</Text>
+                <Text size="6" weight="bold">{systemInfo.currentEpoch}</Text>
+                <Progress value={epochProgress} />
+                <Text size="1" color="gray">
+                  {systemInfo.epochChangeInProgress
+                    ? 'Epoch change in progress'
+                    : `Started ${formatDate(systemInfo.epochStartTime)} • ends in ${formatDuration(epochEnd - Date.now())}`}
+                </Text>
+                <Text size="1" color="gray">Epoch duration: {formatDuration(systemInfo.epochDuration)}</Text>
+              </Flex>
+            </Card>
+
+            <Card variant="surface" style={{ padding: '16px' }}>
+              <Flex direction="column" gap="2">
+                <Text size="2" color="gray">Storage Capacity</Text>
+                <Text size="6" weight="bold">{formatBytes(systemInfo.availableStorage)}</Text>
+                <Progress value={usedPercent} />
+                <Text size="1" color="gray">
+                  available of {formatBytes(systemInfo.totalStorage)} ({usedPercent.toFixed(1)}% used)
+                </Text>
+              </Flex>
+            </Card>
+
+            <Card variant="surface" style={{ padding: '16px' }}>
+              <Flex direction="column" gap="2">
+                <Text size="2" color="gray">Committee</Text>
+                <Text size="6" weight="bold">{systemInfo.nodeCount} nodes</Text>
+                <Text size="1" color="gray">{systemInfo.shardCount} shards</Text>
+              </Flex>
+            </Card>
+          </Grid>
+        </Flex>
+      </Card>
+
+      <Card style={{ padding: '24px' }}>
+        <Flex direction="column" gap="4">
+          <Flex justify="between" align="center">
+            <Text size="5" weight="bold">📡 Endpoints</Text>
+            <Text size="2" color="gray">Average latency: {systemInfo.averageLatency} ms</Text>
+          </Flex>
+
+          <Table.Root>
+            <Table.Header>
+              <Table.Row>
+                <Table.ColumnHeaderCell>Service</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell>URL</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell>Latency</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell>Status</Table.ColumnHeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {systemInfo.endpoints.map(endpoint => (
+                <Table.Row key={`${endpoint.name}-${endpoint.url}`}>
+                  <Table.Cell style={{ textTransform: 'capitalize' }}>{endpoint.name}</Table.Cell>
+                  <Table.Cell>
+                    <Text size="2" style={{ fontFamily: 'monospace' }}>{endpoint.url}</Text>
+                  </Table.Cell>
+                  <Table.Cell>{endpoint.latency !== null ? `${endpoint.latency} ms` : '—'}</Table.Cell>
+                  <Table.Cell>
+                    <Flex gap="1">
+                      <Badge color={endpoint.healthy ? 'green' : 'red'}>
+                        {endpoint.healthy ? 'healthy' : endpoint.error || 'unreachable'}
+                      </Badge>
+                      {endpoint.preferred && <Badge color="blue">in use</Badge>}
+                    </Flex>
+                  </Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table.Root>
+        </Flex>
+      </Card>
+    </Flex>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useReducer, ReactNode } from 'react';
-import type { AppState, NetworkState, WalletState, UIState } from '../types/common';
+import type { AppState, NetworkState, WalletState, UIState, QuiltInfo } from '../types/common';
+import type { PendingStore, WalrusSystemInfo, WalrusBlobInfo, RenewalPolicy, RenewalQueueItem, WalrusUploadMode, WalrusStorageResource } from '../types/walrus';
 import { getNetworkConfig } from '../utils/config';
 
 interface AppContextType {
@@ -10,13 +11,19 @@ interface AppContextType {
 type AppAction =
   | { type: 'SET_WALLET'; payload: WalletState }
   | { type: 'SET_NETWORK'; payload: 'testnet' | 'mainnet' }
+  | { type: 'SET_WALRUS_UPLOAD_MODE'; payload: WalrusUploadMode }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'SET_THEME'; payload: 'light' | 'dark' }
   | { type: 'ADD_BLOB'; payload: any }
   | { type: 'UPDATE_BLOB'; payload: { id: string; data: any } }
   | { type: 'REMOVE_BLOB'; payload: string }
-  | { type: 'SET_SYSTEM_INFO'; payload: any }
+  | { type: 'SET_QUILTS'; payload: QuiltInfo[] }
+  | { type: 'SET_PENDING_STORES'; payload: PendingStore[] }
+  | { type: 'SET_SYSTEM_INFO'; payload: WalrusSystemInfo }
+  | { type: 'SET_RENEWAL_POLICIES'; payload: RenewalPolicy[] }
+  | { type: 'SET_RENEWAL_CHECK'; payload: { queue: RenewalQueueItem[]; expiring: WalrusBlobInfo[] } }
+  | { type: 'SET_REUSABLE_STORAGE'; payload: WalrusStorageResource | null }
   | { type: 'ADD_SESSION_KEY'; payload: any }
   | { type: 'UPDATE_SESSION_KEY'; payload: any }
   | { type: 'REMOVE_SESSION_KEY'; payload: string };
@@ -35,7 +42,15 @@ const initialState: AppState = {
   walrus: {
     blobs: [],
     quilts: [],
-    systemInfo: null
+    systemInfo: null,
+    pendingStores: [],
+    renewal: {
+      policies: [],
+      queue: [],
+      expiring: [],
+      lastCheckedAt: null
+    },
+    reusableStorage: null
   },
   seal: {
     keyServers: getNetworkConfig('testnet').seal.keyServers,
@@ -63,15 +78,28 @@ function appReducer(state: AppState, action: AppAction): AppState {
         ...state,
         network: {
           current: action.payload,
-          walrusConfig: networkConfig.walrus,
+          walrusConfig: { ...networkConfig.walrus, uploadMode: state.network.walrusConfig.uploadMode },
           sealConfig: networkConfig.seal
         },
+        walrus: {
+          ...state.walrus,
+          reusableStorage: null
+        },
         seal: {
           ...state.seal,
           keyServers: networkConfig.seal.keyServers
         }
       };
     
+    case 'SET_WALRUS_UPLOAD_MODE':
+      return {
+        ...state,
+        network: {
+          ...state.network,
+          walrusConfig: { ...state.network.walrusConfig, uploadMode: action.payload }
+        }
+      };
+    
     case 'SET_LOADING':
       return {
         ...state,
@@ -128,6 +156,24 @@ function appReducer(state: AppState, action: AppAction): AppState {
         }
       };
     
+    case 'SET_QUILTS':
+      return {
+        ...state,
+        walrus: {
+          ...state.walrus,
+          quilts: action.payload
+        }
+      };
+    
+    case 'SET_PENDING_STORES':
+      return {
+        ...state,
+        walrus: {
+          ...state.walrus,
+          pendingStores: action.payload
+        }
+      };
+    
     case 'SET_SYSTEM_INFO':
       return {
         ...state,
@@ -137,6 +183,41 @@ function appReducer(state: AppState, action: AppAction): AppState {
         }
       };
     
+    case 'SET_RENEWAL_POLICIES':
+      return {
+        ...state,
+        walrus: {
+          ...state.walrus,
+          renewal: {
+            ...state.walrus.renewal,
+            policies: action.payload
+          }
+        }
+      };
+    
+    case 'SET_RENEWAL_CHECK':
+      return {
+        ...state,
+        walrus: {
+          ...state.walrus,
+          renewal: {
+            ...state.walrus.renewal,
+            queue: action.payload.queue,
+            expiring: action.payload.expiring,
+            lastCheckedAt: new Date()
+          }
+        }
+      };
+    
+    case 'SET_REUSABLE_STORAGE':
+      return {
+        ...state,
+        walrus: {
+          ...state.walrus,
+          reusableStorage: action.payload
+        }
+      };
+    
     case 'ADD_SESSION_KEY':
       const newSessionKeys = new Map(state.seal.sessionKeys);
       newSessionKeys.set(action.payload.id, action.payload);
@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { useSeal } from './useSeal';
+import { usePolicyFiles } from './usePolicyFiles';
+import type { PolicyStoreOptions } from './usePolicyFiles';
+import { PolicyObjectRegistry } from '../services/policyObjectRegistry';
+import type { SealAllowlistInfo } from '../types/seal';
+import type { WalrusFileStoreResult } from '../types/walrus';
+
+export function useAllowlists() {
+  const { state } = useAppContext();
+  const {
+    createAllowlist,
+    getAllowlist,
+    addToAllowlist,
+    removeFromAllowlist,
+    ownedAllowlistIds,
+    publishToAllowlist,
+    isInitialized,
+    loading: sealLoading,
+    error: sealError,
+    clearError: clearSealError
+  } = useSeal();
+  const files = usePolicyFiles('allowlist');
+  const { encryptAndStore, decryptBlob, clearError: clearFilesError } = files;
+
+  const network = state.network.current;
+  const address = state.wallet.account?.address;
+  const registry = useMemo(() => new PolicyObjectRegistry('allowlist', network), [network]);
+  const [allowlists, setAllowlists] = useState<SealAllowlistInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    const owned = address ? await ownedAllowlistIds() : [];
+    const ids = [...new Set([...owned, ...registry.list()])];
+    const infos = await Promise.all(ids.map(id => getAllowlist(id)));
+    setAllowlists(infos.filter((info): info is SealAllowlistInfo => info !== null));
+  }, [address, registry, ownedAllowlistIds, getAllowlist]);
+
+  useEffect(() => {
+    if (isInitialized) {
+      refresh();
+    }
+  }, [isInitialized, refresh]);
+
+  const reload = useCallback(async (allowlistId: string): Promise<SealAllowlistInfo | null> => {
+    const info = await getAllowlist(allowlistId);
+    if (info) {
+      setAllowlists(prev => [info, ...prev.filter(allowlist => allowlist.id !== allowlistId)]);
+    }
+    return info;
+  }, [getAllowlist]);
+
+  const track = useCallback(async (allowlistId: string): Promise<boolean> => {
+    const info = await reload(allowlistId);
+    if (info) {
+      registry.add(allowlistId);
+    }
+    return info !== null;
+  }, [registry, reload]);
+
+  const untrack = useCallback((allowlistId: string) => {
+    registry.remove(allowlistId);
+    setAllowlists(prev => prev.filter(allowlist => allowlist.id !== allowlistId));
+  }, [registry]);
+
+  const create = useCallback(async (name: string, members: string[]): Promise<string | null> => {
+    const allowlistId = await createAllowlist(name, members);
+    if (allowlistId) {
+      registry.add(allowlistId);
+      await reload(allowlistId);
+    }
+    return allowlistId;
+  }, [createAllowlist, registry, reload]);
+
+  const addMember = useCallback(async (allowlistId: string, member: string): Promise<boolean> => {
+    const added = await addToAllowlist(allowlistId, member);
+    if (added) {
+      await reload(allowlistId);
+    }
+    return added;
+  }, [addToAllowlist, reload]);
+
+  const removeMember = useCallback(async (allowlistId: string, member: string): Promise<boolean> => {
+    const removed = await removeFromAllowlist(allowlistId, member);
+    if (removed) {
+      await reload(allowlistId);
+    }
+    return removed;
+  }, [removeFromAllowlist, reload]);
+
+  // Stores the encrypted files on Walrus, then publishes their blob IDs to the allowlist in one transaction
+  const shareFiles = useCallback(async (
+    allowlistId: string,
+    sharedFiles: File[],
+    options: PolicyStoreOptions
+  ): Promise<WalrusFileStoreResult[] | null> => {
+    const results = await encryptAndStore({ allowlistId }, sharedFiles, options, { seal_policy_object: allowlistId });
+    if (!results) {
+      return null;
+    }
+
+    const blobIds = results.flatMap(fileResult => fileResult.result ? [fileResult.result.blobId] : []);
+    if (blobIds.length > 0 && await publishToAllowlist(allowlistId, blobIds)) {
+      await reload(allowlistId);
+    }
+    return results;
+  }, [encryptAndStore, publishToAllowlist, reload]);
+
+  const decryptFile = useCallback((allowlistId: string, blobId: string): Promise<Uint8Array | null> => {
+    return decryptBlob(blobId, [allowlistId]);
+  }, [decryptBlob]);
+
+  const clearError = useCallback(() => {
+    clearSealError();
+    clearFilesError();
+  }, [clearSealError, clearFilesError]);
+
+  return {
+    allowlists,
+    refresh,
+    track,
+    untrack,
+    create,
+    addMember,
+    removeMember,
+    shareFiles,
+    decryptFile,
+    ready: isInitialized && files.ready,
+    loading: sealLoading || files.loading,
+    error: sealError || files.error,
+    clearError
+  };
+}
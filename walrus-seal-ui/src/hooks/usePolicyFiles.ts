@@ -0,0 +1,117 @@
+import { useCallback, useRef } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { useSeal } from './useSeal';
+import { useWalrus } from './useWalrus';
+import type { SealAllowlistConfig, SealSessionKey, SealSubscriptionConfig, SealTimelockConfig } from '../types/seal';
+import type { WalrusFileStoreResult, WalrusStoreOptions } from '../types/walrus';
+
+export type PolicyStoreOptions = Pick<WalrusStoreOptions, 'epochs' | 'permanent' | 'deletable'>;
+
+// Move modules of the Seal example patterns package that hold each policy's seal_approve
+const SEAL_MODULES = {
+  allowlist: 'allowlist',
+  subscription: 'subscription',
+  timelock: 'tle'
+} as const;
+
+interface PolicyConfigs {
+  allowlist: SealAllowlistConfig;
+  subscription: SealSubscriptionConfig;
+  timelock: SealTimelockConfig;
+}
+
+// Encrypted files gated by a Seal example pattern: an allowlist, a subscription service or a time lock
+export function usePolicyFiles<K extends keyof typeof SEAL_MODULES>(kind: K) {
+  const { state } = useAppContext();
+  const {
+    createPolicy,
+    encrypt,
+    decrypt,
+    createSessionKey,
+    parseEncryptedObject,
+    buildSealApproveTransaction,
+    isInitialized,
+    loading: sealLoading,
+    error: sealError,
+    clearError: clearSealError
+  } = useSeal();
+  const { store, read, ready: walrusReady, loading: walrusLoading, error: walrusError, clearError: clearWalrusError } = useWalrus();
+
+  const packageId = state.network.sealConfig.packages[kind];
+  const { sessionTTL } = state.network.sealConfig;
+  const address = state.wallet.account?.address;
+  const sessionKeyRef = useRef<SealSessionKey | null>(null);
+
+  // createPolicy derives a fresh identity per file in the form the module's seal_approve checks
+  const encryptAndStore = useCallback(async (
+    config: PolicyConfigs[K],
+    files: File[],
+    options: PolicyStoreOptions,
+    attributes: Record<string, string> = {}
+  ): Promise<WalrusFileStoreResult[] | null> => {
+    const encryptedFiles: File[] = [];
+    for (const file of files) {
+      const policy = createPolicy(kind, config);
+      if (!policy) {
+        return null;
+      }
+      const encrypted = await encrypt(new Uint8Array(await file.arrayBuffer()), policy);
+      if (!encrypted) {
+        return null;
+      }
+      encryptedFiles.push(new File([encrypted.encryptedData], `${file.name}.seal`, { type: 'application/octet-stream' }));
+    }
+
+    return store(encryptedFiles, {
+      ...options,
+      attributes: {
+        ...attributes,
+        encrypted: 'true',
+        seal_policy: kind
+      }
+    });
+  }, [kind, createPolicy, encrypt, store]);
+
+  // Key servers only release the key if the module's seal_approve succeeds with these objects
+  const decryptBlob = useCallback(async (blobId: string, approveObjectIds: string[]): Promise<Uint8Array | null> => {
+    const blob = await read(blobId);
+    if (!blob) {
+      return null;
+    }
+    const encryptedData = new Uint8Array(await blob.arrayBuffer());
+
+    const encryptedObject = await parseEncryptedObject(encryptedData) as { id: string } | null;
+    if (!encryptedObject) {
+      return null;
+    }
+
+    const cached = sessionKeyRef.current;
+    const sessionKey = cached && cached.packageId === packageId && cached.address === address && cached.expiresAt > Date.now()
+      ? cached
+      : await createSessionKey(packageId, sessionTTL, address);
+    if (!sessionKey) {
+      return null;
+    }
+    sessionKeyRef.current = sessionKey;
+
+    const txBytes = await buildSealApproveTransaction(packageId, SEAL_MODULES[kind], 'seal_approve', encryptedObject.id, ...approveObjectIds);
+    if (!txBytes) {
+      return null;
+    }
+    return decrypt(encryptedData, sessionKey, txBytes);
+  }, [read, parseEncryptedObject, packageId, address, sessionTTL, createSessionKey, buildSealApproveTransaction, kind, decrypt]);
+
+  const clearError = useCallback(() => {
+    clearSealError();
+    clearWalrusError();
+  }, [clearSealError, clearWalrusError]);
+
+  return {
+    encryptAndStore,
+    decryptBlob,
+    ready: isInitialized && walrusReady,
+    loading: sealLoading || walrusLoading,
+    error: sealError || walrusError,
+    clearError
+  };
+}
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { useAppContext } from '../context/AppContext';
+import { useWalrus } from './useWalrus';
+import { RenewalPolicyStore } from '../services/renewalPolicies';
+import { planRenewals } from '../utils/walrus';
+import { APP_CONFIG } from '../utils/constants';
+import type { ExtendBlobConfig, RenewalQueueItem, RenewalTarget } from '../types/walrus';
+
+export function useRenewal() {
+  const { state, dispatch } = useAppContext();
+  const currentAccount = useCurrentAccount();
+  const { listBlobs, getCurrentEpoch, getExtendBatchCost, extendBatch, ready, loading, error, clearError } = useWalrus();
+
+  const network = state.network.current;
+  const address = currentAccount?.address;
+  const policyStore = useMemo(
+    () => (address ? new RenewalPolicyStore(network, address) : null),
+    [network, address]
+  );
+
+  useEffect(() => {
+    dispatch({ type: 'SET_RENEWAL_POLICIES', payload: policyStore ? policyStore.list() : [] });
+  }, [policyStore, dispatch]);
+
+  const checkRenewals = useCallback(async () => {
+    if (!policyStore) {
+      return;
+    }
+
+    const [blobs, currentEpoch] = await Promise.all([listBlobs(), getCurrentEpoch()]);
+    if (currentEpoch === null) {
+      return;
+    }
+
+    const queue = planRenewals(blobs, policyStore.list(), currentEpoch, APP_CONFIG.walrus.maxEpochsAhead);
+    const expiring = blobs.filter(blob =>
+      blob.status !== 'expired' &&
+      blob.endEpoch !== undefined &&
+      blob.endEpoch - currentEpoch <= APP_CONFIG.walrus.renewalWarningEpochs
+    );
+
+    dispatch({ type: 'SET_RENEWAL_CHECK', payload: { queue, expiring } });
+  }, [policyStore, listBlobs, getCurrentEpoch, dispatch]);
+
+  const addPolicy = useCallback((target: RenewalTarget, keepEpochsAhead: number) => {
+    if (!policyStore) {
+      return;
+    }
+
+    policyStore.add(target, keepEpochsAhead);
+    dispatch({ type: 'SET_RENEWAL_POLICIES', payload: policyStore.list() });
+  }, [policyStore, dispatch]);
+
+  const removePolicy = useCallback((policyId: string) => {
+    if (!policyStore) {
+      return;
+    }
+
+    policyStore.remove(policyId);
+    dispatch({ type: 'SET_RENEWAL_POLICIES', payload: policyStore.list() });
+  }, [policyStore, dispatch]);
+
+  const dismissRenewal = useCallback((blobId: string) => {
+    dispatch({
+      type: 'SET_RENEWAL_CHECK',
+      payload: {
+        queue: state.walrus.renewal.queue.filter(item => item.blobId !== blobId),
+        expiring: state.walrus.renewal.expiring
+      }
+    });
+  }, [state.walrus.renewal, dispatch]);
+
+  const quoteRenewals = useCallback((items: RenewalQueueItem[] = state.walrus.renewal.queue): Promise<ExtendBlobConfig[] | null> => {
+    return getExtendBatchCost(items.map(item => ({ objectId: item.objectId, epochs: item.extendEpochs })));
+  }, [state.walrus.renewal.queue, getExtendBatchCost]);
+
+  // All quoted extensions go into a single transaction, refused if the total moved above the quote
+  const approveRenewals = useCallback(async (quotes: ExtendBlobConfig[]): Promise<boolean> => {
+    const acceptedCost = quotes.reduce((total, quote) => total + quote.cost, 0);
+    const extended = await extendBatch(
+      quotes.map(quote => ({ objectId: quote.objectId, epochs: quote.additionalEpochs })),
+      acceptedCost
+    );
+    if (extended) {
+      await checkRenewals();
+    }
+    return extended;
+  }, [extendBatch, checkRenewals]);
+
+  return {
+    policies: state.walrus.renewal.policies,
+    queue: state.walrus.renewal.queue,
+    expiring: state.walrus.renewal.expiring,
+    lastCheckedAt: state.walrus.renewal.lastCheckedAt,
+    checkRenewals,
+    addPolicy,
+    removePolicy,
+    dismissRenewal,
+    quoteRenewals,
+    approveRenewals,
+    ready: ready && !!policyStore,
+    loading,
+    error,
+    clearError
+  };
+}
@@ -1,16 +1,23 @@
 import { useState, useCallback, useEffect, useMemo } from 'react';
-import { useSignPersonalMessage } from '@mysten/dapp-kit';
+import { useSignPersonalMessage, useSignAndExecuteTransaction, useCurrentAccount } from '@mysten/dapp-kit';
 import { SealService } from '../services/seal';
 import { useAppContext } from '../context/AppContext';
 import type {
   SealEncryptionPolicy,
   SealEncryptionResult,
-  SealSessionKey
+  SealSessionKey,
+  SealAllowlistInfo,
+  SealSubscriptionConfig,
+  SealSubscriptionServiceInfo,
+  SealSubscriptionInfo
 } from '../types/seal';
+import { policyIdentity } from '../utils/seal';
 
 export function useSeal() {
   const { state, dispatch } = useAppContext();
   const { mutate: signPersonalMessage } = useSignPersonalMessage();
+  const { mutateAsync: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+  const currentAccount = useCurrentAccount();
   const [sealService, setSealService] = useState<SealService | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -67,7 +74,13 @@ export function useSeal() {
           });
         };
         
-        const service = new SealService(state.network.sealConfig, client, walletSigningFunction);
+        const service = new SealService(
+          state.network.sealConfig,
+          client,
+          walletSigningFunction,
+          (tx) => signAndExecuteTransaction({ transaction: tx }),
+          currentAccount?.address
+        );
         
         // Create the initialization promise and store it
         const initPromise = service.initializeSealClient().then(() => {
@@ -108,7 +121,7 @@ export function useSeal() {
     return () => {
       isCancelled = true;
     };
-  }, [state.network]);
+  }, [state.network, currentAccount?.address, signPersonalMessage, signAndExecuteTransaction]);
 
   const waitForInitialization = useCallback(async () => {
     console.log('Waiting for Seal initialization...', { isInitialized, sealServiceExists: !!sealService });
@@ -354,18 +367,36 @@ export function useSeal() {
     }
   }, [waitForInitialization, sealService, handleError, clearError]);
 
-  // Move contract methods (will throw errors as expected)
-  const createAllowlist = useCallback(async (members: string[]): Promise<string | null> => {
+  // Allowlist methods sign transactions with the connected wallet
+  const createAllowlist = useCallback(async (name: string, members: string[] = []): Promise<string | null> => {
+    setLoading(true);
+    clearError();
+
     try {
       await waitForInitialization();
-      return await sealService!.createAllowlist(members);
+      return await sealService!.createAllowlist(name, members);
     } catch (error) {
       handleError(error, 'createAllowlist');
       return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [waitForInitialization, sealService, handleError, clearError]);
+
+  const getAllowlist = useCallback(async (allowlistId: string): Promise<SealAllowlistInfo | null> => {
+    try {
+      await waitForInitialization();
+      return await sealService!.getAllowlist(allowlistId);
+    } catch (error) {
+      handleError(error, 'getAllowlist');
+      return null;
     }
   }, [waitForInitialization, sealService, handleError]);
 
   const addToAllowlist = useCallback(async (allowlistId: string, member: string): Promise<boolean> => {
+    setLoading(true);
+    clearError();
+
     try {
       await waitForInitialization();
       await sealService!.addToAllowlist(allowlistId, member);
@@ -373,10 +404,15 @@ export function useSeal() {
     } catch (error) {
       handleError(error, 'addToAllowlist');
       return false;
+    } finally {
+      setLoading(false);
     }
-  }, [waitForInitialization, sealService, handleError]);
+  }, [waitForInitialization, sealService, handleError, clearError]);
 
   const removeFromAllowlist = useCallback(async (allowlistId: string, member: string): Promise<boolean> => {
+    setLoading(true);
+    clearError();
+
     try {
       await waitForInitialization();
       await sealService!.removeFromAllowlist(allowlistId, member);
@@ -384,8 +420,10 @@ export function useSeal() {
     } catch (error) {
       handleError(error, 'removeFromAllowlist');
       return false;
+    } finally {
+      setLoading(false);
     }
-  }, [waitForInitialization, sealService, handleError]);
+  }, [waitForInitialization, sealService, handleError, clearError]);
 
   const checkAllowlistMembership = useCallback(async (allowlistId: string, member: string): Promise<boolean> => {
     try {
@@ -397,34 +435,146 @@ export function useSeal() {
     }
   }, [waitForInitialization, sealService, handleError]);
 
-  // Helper function to create default encryption policy
+  const ownedAllowlistIds = useCallback(async (): Promise<string[]> => {
+    try {
+      await waitForInitialization();
+      return await sealService!.ownedAllowlistIds();
+    } catch (error) {
+      handleError(error, 'ownedAllowlistIds');
+      return [];
+    }
+  }, [waitForInitialization, sealService, handleError]);
+
+  const publishToAllowlist = useCallback(async (allowlistId: string, blobIds: string[]): Promise<boolean> => {
+    setLoading(true);
+    clearError();
+
+    try {
+      await waitForInitialization();
+      await sealService!.publishToAllowlist(allowlistId, blobIds);
+      return true;
+    } catch (error) {
+      handleError(error, 'publishToAllowlist');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }, [waitForInitialization, sealService, handleError, clearError]);
+
+  // Subscription methods sign transactions with the connected wallet
+  const createSubscriptionService = useCallback(async (name: string, config: SealSubscriptionConfig): Promise<string | null> => {
+    setLoading(true);
+    clearError();
+
+    try {
+      await waitForInitialization();
+      return await sealService!.createSubscriptionService(name, config);
+    } catch (error) {
+      handleError(error, 'createSubscriptionService');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [waitForInitialization, sealService, handleError, clearError]);
+
+  const getSubscriptionService = useCallback(async (serviceId: string): Promise<SealSubscriptionServiceInfo | null> => {
+    try {
+      await waitForInitialization();
+      return await sealService!.getSubscriptionService(serviceId);
+    } catch (error) {
+      handleError(error, 'getSubscriptionService');
+      return null;
+    }
+  }, [waitForInitialization, sealService, handleError]);
+
+  const ownedSubscriptionServiceIds = useCallback(async (): Promise<string[]> => {
+    try {
+      await waitForInitialization();
+      return await sealService!.ownedSubscriptionServiceIds();
+    } catch (error) {
+      handleError(error, 'ownedSubscriptionServiceIds');
+      return [];
+    }
+  }, [waitForInitialization, sealService, handleError]);
+
+  const publishToSubscriptionService = useCallback(async (serviceId: string, blobIds: string[]): Promise<boolean> => {
+    setLoading(true);
+    clearError();
+
+    try {
+      await waitForInitialization();
+      await sealService!.publishToSubscriptionService(serviceId, blobIds);
+      return true;
+    } catch (error) {
+      handleError(error, 'publishToSubscriptionService');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }, [waitForInitialization, sealService, handleError, clearError]);
+
+  const subscribe = useCallback(async (serviceId: string): Promise<string | null> => {
+    setLoading(true);
+    clearError();
+
+    try {
+      await waitForInitialization();
+      return await sealService!.subscribe(serviceId);
+    } catch (error) {
+      handleError(error, 'subscribe');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [waitForInitialization, sealService, handleError, clearError]);
+
+  const ownedSubscriptions = useCallback(async (): Promise<SealSubscriptionInfo[]> => {
+    try {
+      await waitForInitialization();
+      return await sealService!.ownedSubscriptions();
+    } catch (error) {
+      handleError(error, 'ownedSubscriptions');
+      return [];
+    }
+  }, [waitForInitialization, sealService, handleError]);
+
+  // Builds the policy for a Seal patterns module; malformed configs are rejected before anything is encrypted
   const createPolicy = useCallback((
     type: 'allowlist' | 'subscription' | 'timelock' | 'voting' | 'private',
     config?: unknown
-  ): SealEncryptionPolicy => {
-    // Generate a random 32-byte hex string for the policy ID (without 0x prefix)
-    const randomBytes = new Uint8Array(32);
-    crypto.getRandomValues(randomBytes);
-    const hexId = Array.from(randomBytes)
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
-    
-    console.log('Creating encryption policy:', {
-      type,
-      hexId,
-      threshold: state.network.sealConfig.defaultThreshold,
-      packageId: state.network.sealConfig.packageId
-    });
-    
-    return {
-      threshold: state.network.sealConfig.defaultThreshold,
-      packageId: state.network.sealConfig.packageId,
-      id: hexId,
-      keyServers: state.network.sealConfig.keyServers,
-      policyType: type,
-      policyConfig: config
+  ): SealEncryptionPolicy | null => {
+    const { packages, defaultThreshold, keyServers } = state.network.sealConfig;
+    const packageIds = {
+      allowlist: packages.allowlist,
+      subscription: packages.subscription,
+      timelock: packages.timelock,
+      private: packages.privateData,
+      voting: state.network.sealConfig.packageId
     };
-  }, [state.network.sealConfig]);
+
+    try {
+      const id = policyIdentity(type, config);
+
+      console.log('Creating encryption policy:', {
+        type,
+        id,
+        threshold: defaultThreshold,
+        packageId: packageIds[type]
+      });
+
+      return {
+        threshold: defaultThreshold,
+        packageId: packageIds[type],
+        id,
+        keyServers,
+        policyType: type,
+        policyConfig: config
+      };
+    } catch (error) {
+      handleError(error, 'createPolicy');
+      return null;
+    }
+  }, [state.network.sealConfig, handleError]);
 
   const removeSessionKey = useCallback((sessionKeyId: string): boolean => {
     try {
@@ -455,9 +605,18 @@ export function useSeal() {
     parseEncryptedObject,
     buildSealApproveTransaction,
     createAllowlist,
+    getAllowlist,
     addToAllowlist,
     removeFromAllowlist,
     checkAllowlistMembership,
+    ownedAllowlistIds,
+    publishToAllowlist,
+    createSubscriptionService,
+    getSubscriptionService,
+    ownedSubscriptionServiceIds,
+    publishToSubscriptionService,
+    subscribe,
+    ownedSubscriptions,
     createPolicy,
     clearError
   };
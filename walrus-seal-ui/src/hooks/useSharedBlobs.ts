@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { useWalrus } from './useWalrus';
+import { SharedBlobRegistry } from '../services/sharedBlobRegistry';
+import type { SharedBlobConfig, SharedBlobInfo } from '../types/walrus';
+
+export function useSharedBlobs() {
+  const { state } = useAppContext();
+  const {
+    shareBlob,
+    getSharedBlob,
+    getSharedBlobFundingCost,
+    fundSharedBlob,
+    getSharedBlobContributions,
+    ready,
+    loading,
+    error,
+    clearError
+  } = useWalrus();
+
+  const network = state.network.current;
+  const registry = useMemo(() => new SharedBlobRegistry(network), [network]);
+  const [sharedBlobs, setSharedBlobs] = useState<SharedBlobInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    const infos = await Promise.all(registry.list().map(id => getSharedBlob(id)));
+    setSharedBlobs(infos.filter((info): info is SharedBlobInfo => info !== null));
+  }, [registry, getSharedBlob]);
+
+  useEffect(() => {
+    if (ready) {
+      refresh();
+    }
+  }, [ready, refresh]);
+
+  const track = useCallback(async (sharedObjectId: string): Promise<boolean> => {
+    const info = await getSharedBlob(sharedObjectId);
+    if (!info) {
+      return false;
+    }
+
+    registry.add(sharedObjectId);
+    setSharedBlobs(prev => [info, ...prev.filter(blob => blob.sharedObjectId !== sharedObjectId)]);
+    return true;
+  }, [registry, getSharedBlob]);
+
+  const untrack = useCallback((sharedObjectId: string) => {
+    registry.remove(sharedObjectId);
+    setSharedBlobs(prev => prev.filter(blob => blob.sharedObjectId !== sharedObjectId));
+  }, [registry]);
+
+  const share = useCallback(async (blobId: string, initialFunds?: number): Promise<string | null> => {
+    const sharedObjectId = await shareBlob(blobId, initialFunds);
+    if (sharedObjectId) {
+      await track(sharedObjectId);
+    }
+    return sharedObjectId;
+  }, [shareBlob, track]);
+
+  const fund = useCallback(async (config: SharedBlobConfig): Promise<number | null> => {
+    const newEndEpoch = await fundSharedBlob(config);
+    if (newEndEpoch !== null) {
+      const info = await getSharedBlob(config.sharedObjectId);
+      if (info) {
+        setSharedBlobs(prev => prev.map(blob => blob.sharedObjectId === info.sharedObjectId ? info : blob));
+      }
+    }
+    return newEndEpoch;
+  }, [fundSharedBlob, getSharedBlob]);
+
+  return {
+    sharedBlobs,
+    refresh,
+    track,
+    untrack,
+    share,
+    quoteFunding: getSharedBlobFundingCost,
+    fund,
+    contributions: getSharedBlobContributions,
+    ready,
+    loading,
+    error,
+    clearError
+  };
+}
@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { SUI_CLOCK_OBJECT_ID } from '@mysten/sui/utils';
+import { useAppContext } from '../context/AppContext';
+import { useSeal } from './useSeal';
+import { usePolicyFiles } from './usePolicyFiles';
+import type { PolicyStoreOptions } from './usePolicyFiles';
+import { PolicyObjectRegistry } from '../services/policyObjectRegistry';
+import { activeSubscription } from '../utils/seal';
+import type { SealSubscriptionInfo, SealSubscriptionServiceInfo } from '../types/seal';
+import type { WalrusFileStoreResult } from '../types/walrus';
+
+export function useSubscriptions() {
+  const { state } = useAppContext();
+  const {
+    createSubscriptionService,
+    getSubscriptionService,
+    ownedSubscriptionServiceIds,
+    publishToSubscriptionService,
+    subscribe,
+    ownedSubscriptions,
+    isInitialized,
+    loading: sealLoading,
+    error: sealError,
+    clearError: clearSealError
+  } = useSeal();
+  const files = usePolicyFiles('subscription');
+  const { encryptAndStore, decryptBlob, clearError: clearFilesError } = files;
+
+  const network = state.network.current;
+  const address = state.wallet.account?.address;
+  const registry = useMemo(() => new PolicyObjectRegistry('subscription', network), [network]);
+  const [services, setServices] = useState<SealSubscriptionServiceInfo[]>([]);
+  const [subscriptions, setSubscriptions] = useState<SealSubscriptionInfo[]>([]);
+
+  // Services are found through the wallet's Caps, its Subscriptions and the ones it opened by link
+  const refresh = useCallback(async () => {
+    const [created, owned] = address
+      ? await Promise.all([ownedSubscriptionServiceIds(), ownedSubscriptions()])
+      : [[], []];
+    const ids = [...new Set([...created, ...owned.map(subscription => subscription.serviceId), ...registry.list()])];
+    const infos = await Promise.all(ids.map(id => getSubscriptionService(id)));
+
+    setSubscriptions(owned);
+    setServices(infos.filter((info): info is SealSubscriptionServiceInfo => info !== null));
+  }, [address, registry, ownedSubscriptionServiceIds, ownedSubscriptions, getSubscriptionService]);
+
+  useEffect(() => {
+    if (isInitialized) {
+      refresh();
+    }
+  }, [isInitialized, refresh]);
+
+  const reload = useCallback(async (serviceId: string): Promise<SealSubscriptionServiceInfo | null> => {
+    const info = await getSubscriptionService(serviceId);
+    if (info) {
+      setServices(prev => [info, ...prev.filter(service => service.id !== serviceId)]);
+    }
+    return info;
+  }, [getSubscriptionService]);
+
+  const track = useCallback(async (serviceId: string): Promise<boolean> => {
+    const info = await reload(serviceId);
+    if (info) {
+      registry.add(serviceId);
+    }
+    return info !== null;
+  }, [registry, reload]);
+
+  const untrack = useCallback((serviceId: string) => {
+    registry.remove(serviceId);
+    setServices(prev => prev.filter(service => service.id !== serviceId));
+  }, [registry]);
+
+  const create = useCallback(async (name: string, pricePerAccess: number, duration: number): Promise<string | null> => {
+    if (!address) {
+      return null;
+    }
+
+    const serviceId = await createSubscriptionService(name, { pricePerAccess, duration, feeCollector: address });
+    if (serviceId) {
+      registry.add(serviceId);
+      await reload(serviceId);
+    }
+    return serviceId;
+  }, [address, createSubscriptionService, registry, reload]);
+
+  const purchase = useCallback(async (serviceId: string): Promise<boolean> => {
+    const subscriptionId = await subscribe(serviceId);
+    if (subscriptionId) {
+      setSubscriptions(await ownedSubscriptions());
+    }
+    return subscriptionId !== null;
+  }, [subscribe, ownedSubscriptions]);
+
+  const shareFiles = useCallback(async (
+    service: SealSubscriptionServiceInfo,
+    sharedFiles: File[],
+    options: PolicyStoreOptions
+  ): Promise<WalrusFileStoreResult[] | null> => {
+    const config = {
+      serviceId: service.id,
+      pricePerAccess: service.fee,
+      duration: service.ttl,
+      feeCollector: service.owner
+    };
+    const results = await encryptAndStore(config, sharedFiles, options, { seal_policy_object: service.id });
+    if (!results) {
+      return null;
+    }
+
+    const blobIds = results.flatMap(fileResult => fileResult.result ? [fileResult.result.blobId] : []);
+    if (blobIds.length > 0 && await publishToSubscriptionService(service.id, blobIds)) {
+      await reload(service.id);
+    }
+    return results;
+  }, [encryptAndStore, publishToSubscriptionService, reload]);
+
+  // seal_approve checks the subscription against the service and the on-chain clock
+  const decryptFile = useCallback(async (service: SealSubscriptionServiceInfo, blobId: string): Promise<Uint8Array | null> => {
+    const subscription = activeSubscription(subscriptions, service);
+    if (!subscription) {
+      return null;
+    }
+    return decryptBlob(blobId, [subscription.id, service.id, SUI_CLOCK_OBJECT_ID]);
+  }, [subscriptions, decryptBlob]);
+
+  const clearError = useCallback(() => {
+    clearSealError();
+    clearFilesError();
+  }, [clearSealError, clearFilesError]);
+
+  return {
+    services,
+    subscriptions,
+    refresh,
+    track,
+    untrack,
+    create,
+    purchase,
+    shareFiles,
+    decryptFile,
+    ready: isInitialized && files.ready,
+    loading: sealLoading || files.loading,
+    error: sealError || files.error,
+    clearError
+  };
+}
@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { SUI_CLOCK_OBJECT_ID, fromHex, normalizeSuiAddress } from '@mysten/sui/utils';
+import { useAppContext } from '../context/AppContext';
+import { useSeal } from './useSeal';
+import { useWalrus } from './useWalrus';
+import { usePolicyFiles } from './usePolicyFiles';
+import type { PolicyStoreOptions } from './usePolicyFiles';
+import { TimelockRegistry } from '../services/timelockRegistry';
+import { timelockUnlockTime } from '../utils/seal';
+import type { SealTimelockEntry } from '../types/seal';
+import type { WalrusFileStoreResult } from '../types/walrus';
+
+const TIMELOCK_IDENTITY_BYTES = 8;
+
+export function useTimelock() {
+  const { state } = useAppContext();
+  const {
+    parseEncryptedObject,
+    isInitialized,
+    loading: sealLoading,
+    error: sealError,
+    clearError: clearSealError
+  } = useSeal();
+  const { read, loading: walrusLoading, error: walrusError, clearError: clearWalrusError } = useWalrus();
+  const files = usePolicyFiles('timelock');
+  const { encryptAndStore, decryptBlob, clearError: clearFilesError } = files;
+
+  const network = state.network.current;
+  const packageId = state.network.sealConfig.packages.timelock;
+  const registry = useMemo(() => new TimelockRegistry(network), [network]);
+  const [entries, setEntries] = useState<SealTimelockEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    setEntries(registry.list());
+  }, [registry]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Every file is encrypted under the same time identity; the files still get their own data keys
+  const lock = useCallback(async (
+    lockedFiles: File[],
+    unlockTime: Date,
+    options: PolicyStoreOptions
+  ): Promise<WalrusFileStoreResult[] | null> => {
+    const results = await encryptAndStore({ unlockTime }, lockedFiles, options, {
+      seal_unlock_time: unlockTime.toISOString()
+    });
+
+    results?.forEach(fileResult => {
+      if (fileResult.result) {
+        registry.add({
+          blobId: fileResult.result.blobId,
+          name: fileResult.fileName.replace(/\.seal$/, ''),
+          unlockTime: unlockTime.getTime()
+        });
+      }
+    });
+    refresh();
+    return results;
+  }, [encryptAndStore, registry, refresh]);
+
+  // Shared links only carry the blob ID; the unlock time is read back from the blob's Seal identity
+  const track = useCallback(async (blobId: string): Promise<boolean> => {
+    setError(null);
+
+    const blob = await read(blobId);
+    if (!blob) {
+      return false;
+    }
+
+    const encryptedObject = await parseEncryptedObject(new Uint8Array(await blob.arrayBuffer())) as { id: string; packageId: string } | null;
+    if (!encryptedObject) {
+      return false;
+    }
+    if (normalizeSuiAddress(encryptedObject.packageId) !== normalizeSuiAddress(packageId)
+      || fromHex(encryptedObject.id).length !== TIMELOCK_IDENTITY_BYTES) {
+      setError(`Blob ${blobId} is not time-locked`);
+      return false;
+    }
+
+    registry.add({ blobId, name: '', unlockTime: timelockUnlockTime(encryptedObject.id).getTime() });
+    refresh();
+    return true;
+  }, [read, parseEncryptedObject, packageId, registry, refresh]);
+
+  const untrack = useCallback((blobId: string) => {
+    registry.remove(blobId);
+    refresh();
+  }, [registry, refresh]);
+
+  // tle::seal_approve only compares the identity with the on-chain clock
+  const unlock = useCallback((blobId: string): Promise<Uint8Array | null> => {
+    return decryptBlob(blobId, [SUI_CLOCK_OBJECT_ID]);
+  }, [decryptBlob]);
+
+  const clearError = useCallback(() => {
+    setError(null);
+    clearSealError();
+    clearWalrusError();
+    clearFilesError();
+  }, [clearSealError, clearWalrusError, clearFilesError]);
+
+  return {
+    entries,
+    lock,
+    track,
+    untrack,
+    unlock,
+    ready: isInitialized && files.ready,
+    loading: sealLoading || walrusLoading || files.loading,
+    error: error || sealError || walrusError || files.error,
+    clearError
+  };
+}
@@ -1,18 +1,32 @@
-import { useState, useCallback, useEffect } from 'react';
-import { WalrusService } from '../services/walrus';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { WalrusService, ExecutedTransactionError, TRANSACTION_RESPONSE_OPTIONS } from '../services/walrus';
+import { QuiltRegistry } from '../services/quiltRegistry';
 import { useAppContext } from '../context/AppContext';
 import type { 
   WalrusBlobInfo, 
+  OwnedBlobInfo,
   WalrusStoreOptions, 
+  WalrusFileStoreResult,
+  WalrusStoreProgress,
   WalrusStoreResult,
   WalrusSystemInfo,
   QuiltFile,
-  WalrusQuiltResult
+  WalrusQuiltResult,
+  WalrusCostEstimate,
+  ExtendBlobConfig,
+  WalrusReadOptions,
+  WalrusBlobRange,
+  BlobDeletionPreview,
+  WalrusStorageResource,
+  SharedBlobConfig,
+  SharedBlobInfo,
+  SharedBlobContribution
 } from '../types/walrus';
 
 import { useSuiClient } from '@mysten/dapp-kit';
 import { useSignAndExecuteTransaction } from '@mysten/dapp-kit';
 import { Transaction } from '@mysten/sui/transactions';
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client';
 
 import { useCurrentAccount } from '@mysten/dapp-kit';
 
@@ -34,6 +48,8 @@ export function useWalrus() {
   const [walrusService, setWalrusService] = useState<WalrusService | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<WalrusStoreProgress | null>(null);
+  const storeAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     const initializeWalrusService = async () => {
@@ -77,17 +93,24 @@ export function useWalrus() {
         }
       }
 
-      const signTransaction = async (tx: Transaction): Promise<any> => {
-        const result = await signAndExecute({
-          transaction: tx,
-          options: {
-            showEffects: true,
-            showEvents: true
-          }
-        });
+      // Dapp-kit only returns the digest and effects bytes, so the parsed response is read back from the node
+      const signTransaction = async (tx: Transaction): Promise<SuiTransactionBlockResponse> => {
+        const { digest } = await signAndExecute({ transaction: tx });
         
-        // Return the actual transaction result for executeTransactionBlock
-        return result as any;
+        let result: SuiTransactionBlockResponse;
+        try {
+          result = await clientToUse.waitForTransaction({ digest, options: TRANSACTION_RESPONSE_OPTIONS });
+        } catch (error) {
+          throw new ExecutedTransactionError(
+            `Transaction ${digest} was executed but could not be read back: ${error instanceof Error ? error.message : String(error)}`,
+            digest
+          );
+        }
+        
+        if (result.effects?.status.status === 'failure') {
+          throw new Error(`Transaction ${digest} failed: ${result.effects.status.error ?? 'unknown error'}`);
+        }
+        return result;
       };
 
       console.log('useWalrus: Creating WalrusService with:', {
@@ -97,7 +120,11 @@ export function useWalrus() {
         address: currentAccount.address
       });
 
-      const service = new WalrusService(
+      // Direct mode pulls in the encoder, so it is only loaded when selected
+      const ServiceClass = state.network.walrusConfig.uploadMode === 'direct'
+        ? (await import('../services/walrusDirect')).DirectWalrusService
+        : WalrusService;
+      const service = new ServiceClass(
         state.network.walrusConfig,
         clientToUse,
         signTransaction,
@@ -111,6 +138,17 @@ export function useWalrus() {
     initializeWalrusService();
   }, [state.network.walrusConfig, state.network.current, suiClient, signAndExecute, currentAccount]);
 
+  useEffect(() => {
+    dispatch({ type: 'SET_PENDING_STORES', payload: walrusService ? walrusService.pendingStores() : [] });
+  }, [walrusService, dispatch]);
+
+  const network = state.network.current;
+  const quiltRegistry = useMemo(() => new QuiltRegistry(network), [network]);
+
+  useEffect(() => {
+    dispatch({ type: 'SET_QUILTS', payload: quiltRegistry.list() });
+  }, [quiltRegistry, dispatch]);
+
   const handleError = useCallback((error: any, operation: string) => {
     const message = error instanceof Error ? error.message : `${operation} failed`;
     setError(message);
@@ -123,7 +161,7 @@ export function useWalrus() {
     dispatch({ type: 'SET_ERROR', payload: null });
   }, [dispatch]);
 
-  const store = useCallback(async (files: File[], options: WalrusStoreOptions): Promise<WalrusStoreResult | null> => {
+  const store = useCallback(async (files: File[], options: WalrusStoreOptions): Promise<WalrusFileStoreResult[] | null> => {
     console.log('useWalrus store function called:', {
       hasWalrusService: !!walrusService,
       hasCurrentAccount: !!currentAccount,
@@ -147,33 +185,116 @@ export function useWalrus() {
     setLoading(true);
     clearError();
 
+    const abortController = new AbortController();
+    storeAbortRef.current = abortController;
+    options.signal?.addEventListener('abort', () => abortController.abort());
+
     try {
-      const result = await walrusService.store(files, options);
-      
-      // Add blob to state
-      const blobInfo: WalrusBlobInfo = {
-        id: result.blobId,
-        size: files.reduce((total, file) => total + file.size, 0),
-        uploadedAt: new Date(),
-        status: 'pending',
-        epochs: options.epochs,
-        permanent: options.permanent || false,
-        deletable: options.deletable || false,
-        attributes: options.attributes
-      };
+      const results = await walrusService.store(files, {
+        ...options,
+        signal: abortController.signal,
+        onProgress: (storeProgress) => {
+          setProgress(storeProgress);
+          options.onProgress?.(storeProgress);
+        }
+      });
       
-      dispatch({ type: 'ADD_BLOB', payload: blobInfo });
+      // Add stored blobs to state
+      for (const fileResult of results) {
+        if (fileResult.status !== 'stored' || !fileResult.result) continue;
+
+        const blobInfo: WalrusBlobInfo = {
+          id: fileResult.result.blobId,
+          objectId: fileResult.result.suiObjectId,
+          size: fileResult.size,
+          uploadedAt: new Date(),
+          status: 'pending',
+          epochs: options.epochs,
+          permanent: options.permanent || false,
+          deletable: options.deletable || false,
+          attributes: options.attributes
+        };
+        
+        dispatch({ type: 'ADD_BLOB', payload: blobInfo });
+      }
+
+      const failed = results.filter(fileResult => fileResult.status === 'failed');
+      if (failed.length > 0) {
+        handleError(
+          new Error(`${failed.length} of ${results.length} files failed to store: ${failed.map(f => `${f.fileName} (${f.error})`).join(', ')}`),
+          'store'
+        );
+      }
       
-      return result;
+      return results;
     } catch (error) {
       handleError(error, 'store');
       return null;
     } finally {
+      storeAbortRef.current = null;
+      setProgress(null);
       setLoading(false);
+      dispatch({ type: 'SET_PENDING_STORES', payload: walrusService.pendingStores() });
     }
   }, [walrusService, currentAccount, handleError, clearError, dispatch]);
 
-  const read = useCallback(async (blobId: string): Promise<Blob | null> => {
+  const resumeStore = useCallback(async (pendingId: string, file: File): Promise<WalrusStoreResult | null> => {
+    if (!walrusService) {
+      handleError(new Error('Walrus service not initialized'), 'resumeStore');
+      return null;
+    }
+
+    setLoading(true);
+    clearError();
+
+    const abortController = new AbortController();
+    storeAbortRef.current = abortController;
+    const pending = walrusService.pendingStores().find(entry => entry.id === pendingId);
+
+    try {
+      const result = await walrusService.resumeStore(pendingId, file, {
+        signal: abortController.signal,
+        onProgress: setProgress
+      });
+
+      dispatch({
+        type: 'ADD_BLOB',
+        payload: {
+          id: result.blobId,
+          objectId: result.suiObjectId,
+          size: file.size,
+          uploadedAt: new Date(),
+          status: 'pending',
+          epochs: result.epochs,
+          permanent: !(pending?.deletable ?? false),
+          deletable: pending?.deletable ?? false
+        }
+      });
+
+      return result;
+    } catch (error) {
+      handleError(error, 'resumeStore');
+      return null;
+    } finally {
+      storeAbortRef.current = null;
+      setProgress(null);
+      setLoading(false);
+      dispatch({ type: 'SET_PENDING_STORES', payload: walrusService.pendingStores() });
+    }
+  }, [walrusService, handleError, clearError, dispatch]);
+
+  const discardPendingStore = useCallback((pendingId: string) => {
+    if (!walrusService) return;
+
+    walrusService.discardPendingStore(pendingId);
+    dispatch({ type: 'SET_PENDING_STORES', payload: walrusService.pendingStores() });
+  }, [walrusService, dispatch]);
+
+  const cancelStore = useCallback(() => {
+    storeAbortRef.current?.abort();
+  }, []);
+
+  const read = useCallback(async (blobId: string, options?: WalrusReadOptions): Promise<Blob | null> => {
     if (!walrusService) {
       handleError(new Error('Walrus service not initialized'), 'read');
       return null;
@@ -183,7 +304,7 @@ export function useWalrus() {
     clearError();
 
     try {
-      return await walrusService.read(blobId);
+      return await walrusService.read(blobId, options);
     } catch (error) {
       handleError(error, 'read');
       return null;
@@ -192,6 +313,46 @@ export function useWalrus() {
     }
   }, [walrusService, handleError, clearError]);
 
+  const readRange = useCallback(async (
+    blobId: string,
+    start: number,
+    end?: number,
+    options?: WalrusReadOptions
+  ): Promise<WalrusBlobRange | null> => {
+    if (!walrusService) {
+      handleError(new Error('Walrus service not initialized'), 'readRange');
+      return null;
+    }
+
+    setLoading(true);
+    clearError();
+
+    try {
+      return await walrusService.readRange(blobId, start, end, options);
+    } catch (error) {
+      handleError(error, 'readRange');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [walrusService, handleError, clearError]);
+
+  const getBlobUrl = useCallback((blobId: string): string | null => {
+    return walrusService ? walrusService.blobUrl(blobId) : null;
+  }, [walrusService]);
+
+  const clearReadCache = useCallback(async () => {
+    if (!walrusService) {
+      return;
+    }
+
+    try {
+      await walrusService.clearReadCache();
+    } catch (error) {
+      handleError(error, 'clearReadCache');
+    }
+  }, [walrusService, handleError]);
+
   const status = useCallback(async (blobId: string) => {
     if (!walrusService) {
       handleError(new Error('Walrus service not initialized'), 'status');
@@ -222,9 +383,68 @@ export function useWalrus() {
     }
   }, [walrusService, handleError, clearError, dispatch]);
 
-  const extend = useCallback(async (objectId: string, epochs: number): Promise<boolean> => {
+  const getExtendCost = useCallback(async (blobId: string, epochs: number): Promise<ExtendBlobConfig | null> => {
+    if (!walrusService) {
+      handleError(new Error('Walrus service not initialized'), 'extendCost');
+      return null;
+    }
+
+    setLoading(true);
+    clearError();
+
+    try {
+      return await walrusService.extendCost(blobId, epochs);
+    } catch (error) {
+      handleError(error, 'extendCost');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [walrusService, handleError, clearError]);
+
+  const getExtendBatchCost = useCallback(async (extensions: { objectId: string; epochs: number }[]): Promise<ExtendBlobConfig[] | null> => {
+    if (!walrusService) {
+      handleError(new Error('Walrus service not initialized'), 'extendBatchCost');
+      return null;
+    }
+
+    setLoading(true);
+    clearError();
+
+    try {
+      return await walrusService.extendBatchCost(extensions);
+    } catch (error) {
+      handleError(error, 'extendBatchCost');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [walrusService, handleError, clearError]);
+
+  const extend = useCallback(async (blobId: string, epochs: number, maxCost?: number): Promise<number | null> => {
     if (!walrusService) {
       handleError(new Error('Walrus service not initialized'), 'extend');
+      return null;
+    }
+
+    setLoading(true);
+    clearError();
+
+    try {
+      const newEndEpoch = await walrusService.extend(blobId, epochs, maxCost);
+      dispatch({ type: 'UPDATE_BLOB', payload: { id: blobId, data: { endEpoch: newEndEpoch } } });
+      return newEndEpoch;
+    } catch (error) {
+      handleError(error, 'extend');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [walrusService, handleError, clearError, dispatch]);
+
+  const extendBatch = useCallback(async (extensions: { objectId: string; epochs: number }[], maxCost?: number): Promise<boolean> => {
+    if (!walrusService) {
+      handleError(new Error('Walrus service not initialized'), 'extendBatch');
       return false;
     }
 
@@ -232,37 +452,141 @@ export function useWalrus() {
     clearError();
 
     try {
-      await walrusService.extend(objectId, epochs);
+      await walrusService.extendBatch(extensions, maxCost);
       return true;
     } catch (error) {
-      handleError(error, 'extend');
+      handleError(error, 'extendBatch');
       return false;
     } finally {
       setLoading(false);
     }
   }, [walrusService, handleError, clearError]);
 
-  const deleteBlob = useCallback(async (blobId: string): Promise<boolean> => {
+  const getDeletePreview = useCallback(async (objectId: string): Promise<BlobDeletionPreview | null> => {
+    if (!walrusService) {
+      handleError(new Error('Walrus service not initialized'), 'deletePreview');
+      return null;
+    }
+
+    setLoading(true);
+    clearError();
+
+    try {
+      return await walrusService.deletePreview(objectId);
+    } catch (error) {
+      handleError(error, 'deletePreview');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [walrusService, handleError, clearError]);
+
+  const deleteBlob = useCallback(async (objectId: string, blobId: string): Promise<WalrusStorageResource | null> => {
     if (!walrusService) {
       handleError(new Error('Walrus service not initialized'), 'delete');
-      return false;
+      return null;
     }
 
     setLoading(true);
     clearError();
 
     try {
-      await walrusService.delete(blobId);
+      const storage = await walrusService.delete(objectId);
       dispatch({ type: 'REMOVE_BLOB', payload: blobId });
-      return true;
+      return storage;
     } catch (error) {
       handleError(error, 'delete');
-      return false;
+      return null;
     } finally {
       setLoading(false);
     }
   }, [walrusService, handleError, clearError, dispatch]);
 
+  const shareBlob = useCallback(async (blobId: string, initialFunds?: number): Promise<string | null> => {
+    if (!walrusService) {
+      handleError(new Error('Walrus service not initialized'), 'shareBlob');
+      return null;
+    }
+
+    setLoading(true);
+    clearError();
+
+    try {
+      return await walrusService.shareBlob(blobId, initialFunds);
+    } catch (error) {
+      handleError(error, 'shareBlob');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [walrusService, handleError, clearError]);
+
+  const getSharedBlob = useCallback(async (sharedObjectId: string): Promise<SharedBlobInfo | null> => {
+    if (!walrusService) {
+      handleError(new Error('Walrus service not initialized'), 'getSharedBlob');
+      return null;
+    }
+
+    try {
+      return await walrusService.getSharedBlob(sharedObjectId);
+    } catch (error) {
+      handleError(error, 'getSharedBlob');
+      return null;
+    }
+  }, [walrusService, handleError]);
+
+  const getSharedBlobFundingCost = useCallback(async (sharedObjectId: string, epochs: number): Promise<SharedBlobConfig | null> => {
+    if (!walrusService) {
+      handleError(new Error('Walrus service not initialized'), 'sharedBlobFundingCost');
+      return null;
+    }
+
+    setLoading(true);
+    clearError();
+
+    try {
+      return await walrusService.sharedBlobFundingCost(sharedObjectId, epochs);
+    } catch (error) {
+      handleError(error, 'sharedBlobFundingCost');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [walrusService, handleError, clearError]);
+
+  const fundSharedBlob = useCallback(async (config: SharedBlobConfig): Promise<number | null> => {
+    if (!walrusService) {
+      handleError(new Error('Walrus service not initialized'), 'fundSharedBlob');
+      return null;
+    }
+
+    setLoading(true);
+    clearError();
+
+    try {
+      return await walrusService.fundSharedBlob(config);
+    } catch (error) {
+      handleError(error, 'fundSharedBlob');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [walrusService, handleError, clearError]);
+
+  const getSharedBlobContributions = useCallback(async (sharedObjectId: string): Promise<SharedBlobContribution[]> => {
+    if (!walrusService) {
+      handleError(new Error('Walrus service not initialized'), 'sharedBlobContributions');
+      return [];
+    }
+
+    try {
+      return await walrusService.sharedBlobContributions(sharedObjectId);
+    } catch (error) {
+      handleError(error, 'sharedBlobContributions');
+      return [];
+    }
+  }, [walrusService, handleError]);
+
   const storeQuilt = useCallback(async (files: QuiltFile[], options: WalrusStoreOptions): Promise<WalrusQuiltResult | null> => {
     if (!walrusService) {
       handleError(new Error('Walrus service not initialized'), 'storeQuilt');
@@ -273,14 +597,24 @@ export function useWalrus() {
     clearError();
 
     try {
-      return await walrusService.storeQuilt(files, options);
+      const result = await walrusService.storeQuilt(files, options);
+
+      quiltRegistry.add({
+        id: result.quiltId,
+        patches: result.patches,
+        uploadedAt: new Date(),
+        size: result.totalSize
+      });
+      dispatch({ type: 'SET_QUILTS', payload: quiltRegistry.list() });
+
+      return result;
     } catch (error) {
       handleError(error, 'storeQuilt');
       return null;
     } finally {
       setLoading(false);
     }
-  }, [walrusService, handleError, clearError]);
+  }, [walrusService, quiltRegistry, handleError, clearError, dispatch]);
 
   const readQuilt = useCallback(async (quiltId: string, identifier: string): Promise<Blob | null> => {
     if (!walrusService) {
@@ -322,7 +656,7 @@ export function useWalrus() {
     }
   }, [walrusService, handleError, clearError, dispatch]);
 
-  const listBlobs = useCallback(async (owner?: string): Promise<WalrusBlobInfo[]> => {
+  const listBlobs = useCallback(async (owner?: string): Promise<OwnedBlobInfo[]> => {
     if (!walrusService) {
       handleError(new Error('Walrus service not initialized'), 'listBlobs');
       return [];
@@ -341,21 +675,134 @@ export function useWalrus() {
     }
   }, [walrusService, handleError, clearError]);
 
+  const findBlobs = useCallback(async (attributes: Record<string, string>, owner?: string): Promise<OwnedBlobInfo[]> => {
+    if (!walrusService) {
+      handleError(new Error('Walrus service not initialized'), 'findBlobs');
+      return [];
+    }
+
+    setLoading(true);
+    clearError();
+
+    try {
+      return await walrusService.findBlobs(attributes, owner);
+    } catch (error) {
+      handleError(error, 'findBlobs');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, [walrusService, handleError, clearError]);
+
+  const getBlobAttributes = useCallback(async (blobId: string): Promise<Record<string, string> | null> => {
+    if (!walrusService) {
+      handleError(new Error('Walrus service not initialized'), 'getBlobAttributes');
+      return null;
+    }
+
+    try {
+      return await walrusService.getBlobAttributes(blobId);
+    } catch (error) {
+      handleError(error, 'getBlobAttributes');
+      return null;
+    }
+  }, [walrusService, handleError]);
+
+  const updateBlobAttributes = useCallback(async (
+    blobId: string,
+    attributes: Record<string, string>,
+    removedKeys: string[] = []
+  ): Promise<boolean> => {
+    if (!walrusService) {
+      handleError(new Error('Walrus service not initialized'), 'updateBlobAttributes');
+      return false;
+    }
+
+    setLoading(true);
+    clearError();
+
+    try {
+      if (removedKeys.length > 0) {
+        await walrusService.deleteBlobAttributes(blobId, removedKeys);
+      }
+      if (Object.keys(attributes).length > 0) {
+        await walrusService.setBlobAttributes(blobId, attributes);
+      }
+      return true;
+    } catch (error) {
+      handleError(error, 'updateBlobAttributes');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }, [walrusService, handleError, clearError]);
+
+  const getCurrentEpoch = useCallback(async (): Promise<number | null> => {
+    if (!walrusService) {
+      handleError(new Error('Walrus service not initialized'), 'currentEpoch');
+      return null;
+    }
+
+    try {
+      return await walrusService.currentEpoch();
+    } catch (error) {
+      handleError(error, 'currentEpoch');
+      return null;
+    }
+  }, [walrusService, handleError]);
+
+  const estimateCost = useCallback(async (size: number, epochs: number): Promise<WalrusCostEstimate | null> => {
+    if (!walrusService) {
+      return null;
+    }
+
+    // Estimates refresh on every input change, so failures are logged rather than surfaced as errors
+    try {
+      return await walrusService.estimateCost(size, epochs);
+    } catch (error) {
+      console.error('Walrus estimateCost error:', error);
+      return null;
+    }
+  }, [walrusService]);
+
   return {
     blobs: state.walrus.blobs,
     quilts: state.walrus.quilts,
+    pendingStores: state.walrus.pendingStores,
     systemInfo: state.walrus.systemInfo,
     loading,
     error,
+    progress,
     store,
+    resumeStore,
+    discardPendingStore,
+    cancelStore,
     read,
+    readRange,
+    getBlobUrl,
+    clearReadCache,
     status,
+    getExtendCost,
+    getExtendBatchCost,
     extend,
+    extendBatch,
+    getDeletePreview,
     deleteBlob,
+    shareBlob,
+    getSharedBlob,
+    getSharedBlobFundingCost,
+    fundSharedBlob,
+    getSharedBlobContributions,
     storeQuilt,
     readQuilt,
     getSystemInfo,
     listBlobs,
+    findBlobs,
+    getBlobAttributes,
+    updateBlobAttributes,
+    getCurrentEpoch,
+    estimateCost,
+    ready: !!walrusService,
     clearError
   };
 }
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { Flex, Text, Card, Grid } from '@radix-ui/themes';
+import { AllowlistPanel } from '../../components/integration/AllowlistPanel';
+import { useAppContext } from '../../context/AppContext';
+
+export function Allowlist() {
+  const { state } = useAppContext();
+
+  return (
+    <Flex direction="column" gap="6">
+      <Card style={{ padding: '24px', textAlign: 'center' }}>
+        <Text size="7" weight="bold" style={{ 
+          background: 'linear-gradient(45deg, #8b5cf6, #3b82f6)',
+          WebkitBackgroundClip: 'text',
+          WebkitTextFillColor: 'transparent',
+          marginBottom: '12px',
+          display: 'block'
+        }}>
+          Allowlist Sharing
+        </Text>
+        <Text size="4" color="gray">
+          Share encrypted files on Walrus with exactly the wallets you choose
+        </Text>
+      </Card>
+
+      {!state.wallet.connected && (
+        <Card style={{ padding: '16px', background: 'var(--orange-2)', border: '1px solid var(--orange-6)' }}>
+          <Text size="3" color="orange">
+            ⚠️ Connect your wallet to manage allowlists or decrypt files shared with you
+          </Text>
+        </Card>
+      )}
+
+      <AllowlistPanel />
+
+      <Card style={{ padding: '20px' }}>
+        <Text size="4" weight="bold" style={{ marginBottom: '12px', display: 'block' }}>
+          How it works
+        </Text>
+        <Grid columns="4" gap="4">
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">1. Create</Text>
+            <Text size="2" color="gray">
+              Creating an allowlist shares it on-chain and gives your wallet its Cap,
+              which is required to change members or attach files.
+            </Text>
+          </Flex>
+          
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">2. Invite</Text>
+            <Text size="2" color="gray">
+              Add collaborator addresses, then send them the allowlist link.
+              Removing an address revokes access to every file at once.
+            </Text>
+          </Flex>
+          
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">3. Share</Text>
+            <Text size="2" color="gray">
+              Files are encrypted under an ID prefixed by the allowlist object ID,
+              stored on Walrus and published to the allowlist.
+            </Text>
+          </Flex>
+
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">4. Decrypt</Text>
+            <Text size="2" color="gray">
+              Key servers dry-run the allowlist's seal_approve and only release keys
+              to wallets that are on the list.
+            </Text>
+          </Flex>
+        </Grid>
+      </Card>
+    </Flex>
+  );
+}
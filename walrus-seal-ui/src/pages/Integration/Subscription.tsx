@@ -0,0 +1,75 @@
+import { Flex, Text, Card, Grid } from '@radix-ui/themes';
+import { SubscriptionPanel } from '../../components/integration/SubscriptionPanel';
+import { useAppContext } from '../../context/AppContext';
+
+export function Subscription() {
+  const { state } = useAppContext();
+
+  return (
+    <Flex direction="column" gap="6">
+      <Card style={{ padding: '24px', textAlign: 'center' }}>
+        <Text size="7" weight="bold" style={{ 
+          background: 'linear-gradient(45deg, #8b5cf6, #3b82f6)',
+          WebkitBackgroundClip: 'text',
+          WebkitTextFillColor: 'transparent',
+          marginBottom: '12px',
+          display: 'block'
+        }}>
+          Subscription Content
+        </Text>
+        <Text size="4" color="gray">
+          Sell time-limited access to encrypted files on Walrus
+        </Text>
+      </Card>
+
+      {!state.wallet.connected && (
+        <Card style={{ padding: '16px', background: 'var(--orange-2)', border: '1px solid var(--orange-6)' }}>
+          <Text size="3" color="orange">
+            ⚠️ Connect your wallet to create services, subscribe or decrypt content
+          </Text>
+        </Card>
+      )}
+
+      <SubscriptionPanel />
+
+      <Card style={{ padding: '20px' }}>
+        <Text size="4" weight="bold" style={{ marginBottom: '12px', display: 'block' }}>
+          How it works
+        </Text>
+        <Grid columns="4" gap="4">
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">1. Create</Text>
+            <Text size="2" color="gray">
+              A service sets a price and an access period. Your wallet receives its Cap
+              and collects every subscription fee.
+            </Text>
+          </Flex>
+          
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">2. Publish</Text>
+            <Text size="2" color="gray">
+              Files are encrypted under an ID prefixed by the service object ID,
+              stored on Walrus and published to the service.
+            </Text>
+          </Flex>
+          
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">3. Subscribe</Text>
+            <Text size="2" color="gray">
+              Paying the fee mints a Subscription object to the buyer's wallet,
+              stamped with the on-chain time of purchase.
+            </Text>
+          </Flex>
+
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">4. Decrypt</Text>
+            <Text size="2" color="gray">
+              Key servers check the Subscription against the service and the clock,
+              so access ends by itself once the period runs out.
+            </Text>
+          </Flex>
+        </Grid>
+      </Card>
+    </Flex>
+  );
+}
@@ -0,0 +1,75 @@
+import { Flex, Text, Card, Grid } from '@radix-ui/themes';
+import { TimelockPanel } from '../../components/integration/TimelockPanel';
+import { useAppContext } from '../../context/AppContext';
+
+export function Timelock() {
+  const { state } = useAppContext();
+
+  return (
+    <Flex direction="column" gap="6">
+      <Card style={{ padding: '24px', textAlign: 'center' }}>
+        <Text size="7" weight="bold" style={{ 
+          background: 'linear-gradient(45deg, #8b5cf6, #3b82f6)',
+          WebkitBackgroundClip: 'text',
+          WebkitTextFillColor: 'transparent',
+          marginBottom: '12px',
+          display: 'block'
+        }}>
+          Time-locked Release
+        </Text>
+        <Text size="4" color="gray">
+          Encrypt files on Walrus that nobody can open before a chosen time
+        </Text>
+      </Card>
+
+      {!state.wallet.connected && (
+        <Card style={{ padding: '16px', background: 'var(--orange-2)', border: '1px solid var(--orange-6)' }}>
+          <Text size="3" color="orange">
+            ⚠️ Connect your wallet to lock files or unlock the ones whose time has come
+          </Text>
+        </Card>
+      )}
+
+      <TimelockPanel />
+
+      <Card style={{ padding: '20px' }}>
+        <Text size="4" weight="bold" style={{ marginBottom: '12px', display: 'block' }}>
+          How it works
+        </Text>
+        <Grid columns="4" gap="4">
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">1. Choose a time</Text>
+            <Text size="2" color="gray">
+              The unlock time becomes the encryption identity itself, BCS-encoded
+              as milliseconds since the epoch.
+            </Text>
+          </Flex>
+          
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">2. Lock</Text>
+            <Text size="2" color="gray">
+              Files are encrypted under that identity and stored on Walrus.
+              No on-chain object is needed, so locking costs no extra transaction.
+            </Text>
+          </Flex>
+          
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">3. Wait</Text>
+            <Text size="2" color="gray">
+              Anyone with the link sees the countdown. Until it ends, key servers
+              refuse to release the key to everyone, including you.
+            </Text>
+          </Flex>
+
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">4. Unlock</Text>
+            <Text size="2" color="gray">
+              Once the Sui clock passes the unlock time, tle::seal_approve succeeds
+              and the page decrypts the files automatically.
+            </Text>
+          </Flex>
+        </Grid>
+      </Card>
+    </Flex>
+  );
+}
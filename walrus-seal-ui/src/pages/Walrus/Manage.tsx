@@ -0,0 +1,39 @@
+import { Flex, Text, Card } from '@radix-ui/themes';
+import { BlobTable } from '../../components/walrus/BlobTable';
+import { RenewalPanel } from '../../components/walrus/RenewalPanel';
+import { useAppContext } from '../../context/AppContext';
+
+export function Manage() {
+  const { state } = useAppContext();
+
+  return (
+    <Flex direction="column" gap="6">
+      <Card style={{ padding: '24px', textAlign: 'center' }}>
+        <Text size="7" weight="bold" style={{ 
+          background: 'linear-gradient(45deg, #3b82f6, #1d4ed8)',
+          WebkitBackgroundClip: 'text',
+          WebkitTextFillColor: 'transparent',
+          marginBottom: '12px',
+          display: 'block'
+        }}>
+          Blob Management
+        </Text>
+        <Text size="4" color="gray">
+          Review, extend, delete and download every blob owned by your address
+        </Text>
+      </Card>
+
+      {!state.wallet.connected && (
+        <Card style={{ padding: '16px', background: 'var(--orange-2)', border: '1px solid var(--orange-6)' }}>
+          <Text size="3" color="orange">
+            ⚠️ Connect your wallet to see the blobs you own
+          </Text>
+        </Card>
+      )}
+
+      <BlobTable />
+
+      <RenewalPanel />
+    </Flex>
+  );
+}
@@ -0,0 +1,77 @@
+import { Grid, Flex, Text, Card } from '@radix-ui/themes';
+import { QuiltBuilder } from '../../components/walrus/QuiltBuilder';
+import { QuiltBrowser } from '../../components/walrus/QuiltBrowser';
+import { useAppContext } from '../../context/AppContext';
+import type { WalrusQuiltResult } from '../../types/walrus';
+
+export function Quilt() {
+  const { state } = useAppContext();
+
+  const handleUploadComplete = (result: WalrusQuiltResult) => {
+    console.log('Quilt upload completed:', result);
+  };
+
+  return (
+    <Flex direction="column" gap="6">
+      <Card style={{ padding: '24px', textAlign: 'center' }}>
+        <Text size="7" weight="bold" style={{ 
+          background: 'linear-gradient(45deg, #3b82f6, #1d4ed8)',
+          WebkitBackgroundClip: 'text',
+          WebkitTextFillColor: 'transparent',
+          marginBottom: '12px',
+          display: 'block'
+        }}>
+          Quilt Manager
+        </Text>
+        <Text size="4" color="gray">
+          Batch many small files into a single Walrus quilt and retrieve them one by one
+        </Text>
+      </Card>
+
+      {!state.wallet.connected && (
+        <Card style={{ padding: '16px', background: 'var(--orange-2)', border: '1px solid var(--orange-6)' }}>
+          <Text size="3" color="orange">
+            ⚠️ Connect your wallet to store quilts on Walrus
+          </Text>
+        </Card>
+      )}
+
+      <Grid columns="2" gap="6">
+        <QuiltBuilder onUploadComplete={handleUploadComplete} />
+
+        <QuiltBrowser />
+      </Grid>
+
+      <Card style={{ padding: '20px' }}>
+        <Text size="4" weight="bold" style={{ marginBottom: '12px', display: 'block' }}>
+          How it works
+        </Text>
+        <Grid columns="3" gap="4">
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">1. Add Patches</Text>
+            <Text size="2" color="gray">
+              Drop in the files to bundle. Each file becomes a patch with a unique
+              identifier, optional tags and metadata.
+            </Text>
+          </Flex>
+          
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">2. Store Once</Text>
+            <Text size="2" color="gray">
+              All patches are encoded together as one blob, so the per-blob
+              metadata overhead and Sui fees are paid only once.
+            </Text>
+          </Flex>
+          
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">3. Read Individually</Text>
+            <Text size="2" color="gray">
+              Any patch can be fetched on its own by quilt ID and identifier,
+              without downloading the whole quilt.
+            </Text>
+          </Flex>
+        </Grid>
+      </Card>
+    </Flex>
+  );
+}
@@ -0,0 +1,67 @@
+import { Flex, Text, Card, Grid } from '@radix-ui/themes';
+import { SharedBlobsPanel } from '../../components/walrus/SharedBlobsPanel';
+import { useAppContext } from '../../context/AppContext';
+
+export function Shared() {
+  const { state } = useAppContext();
+
+  return (
+    <Flex direction="column" gap="6">
+      <Card style={{ padding: '24px', textAlign: 'center' }}>
+        <Text size="7" weight="bold" style={{ 
+          background: 'linear-gradient(45deg, #3b82f6, #1d4ed8)',
+          WebkitBackgroundClip: 'text',
+          WebkitTextFillColor: 'transparent',
+          marginBottom: '12px',
+          display: 'block'
+        }}>
+          Shared Blobs
+        </Text>
+        <Text size="4" color="gray">
+          Keep community datasets alive with storage funded by many contributors
+        </Text>
+      </Card>
+
+      {!state.wallet.connected && (
+        <Card style={{ padding: '16px', background: 'var(--orange-2)', border: '1px solid var(--orange-6)' }}>
+          <Text size="3" color="orange">
+            ⚠️ Connect your wallet to share blobs or contribute WAL
+          </Text>
+        </Card>
+      )}
+
+      <SharedBlobsPanel />
+
+      <Card style={{ padding: '20px' }}>
+        <Text size="4" weight="bold" style={{ marginBottom: '12px', display: 'block' }}>
+          How it works
+        </Text>
+        <Grid columns="3" gap="4">
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">1. Share</Text>
+            <Text size="2" color="gray">
+              The owner wraps a blob into a shared object, optionally seeding it with WAL.
+              The blob can no longer be deleted or moved by anyone.
+            </Text>
+          </Flex>
+          
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">2. Fund</Text>
+            <Text size="2" color="gray">
+              Any wallet can quote and pay for extra epochs. The payment is added to the
+              shared funds and the blob is extended in the same transaction.
+            </Text>
+          </Flex>
+          
+          <Flex direction="column" gap="2">
+            <Text size="3" weight="medium">3. Track</Text>
+            <Text size="2" color="gray">
+              Every contribution is an on-chain transaction, so the history of who kept
+              the dataset alive is public and verifiable.
+            </Text>
+          </Flex>
+        </Grid>
+      </Card>
+    </Flex>
+  );
+}
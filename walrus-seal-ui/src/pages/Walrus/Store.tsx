@@ -2,13 +2,15 @@ import React from 'react';
 import { Grid, Flex, Text, Card } from '@radix-ui/themes';
 import { BlobUploader } from '../../components/walrus/BlobUploader';
 import { BlobViewer } from '../../components/walrus/BlobViewer';
+import { PendingUploads } from '../../components/walrus/PendingUploads';
 import { useAppContext } from '../../context/AppContext';
+import type { WalrusFileStoreResult } from '../../types/walrus';
 
 export function Store() {
   const { state } = useAppContext();
 
-  const handleUploadComplete = (result: any) => {
-    console.log('Upload completed:', result);
+  const handleUploadComplete = (results: WalrusFileStoreResult[]) => {
+    console.log('Upload completed:', results);
   };
 
   return (
@@ -45,6 +47,8 @@ export function Store() {
         <BlobViewer />
       </Grid>
 
+      <PendingUploads />
+
       <Card style={{ padding: '20px' }}>
         <Text size="4" weight="bold" style={{ marginBottom: '12px', display: 'block' }}>
           How it works
@@ -54,7 +58,7 @@ export function Store() {
             <Text size="3" weight="medium">1. Select Files</Text>
             <Text size="2" color="gray">
               Choose files to upload. Supports images, text, JSON, and more.
-              Maximum file size is 50MB per file.
+              Large files are streamed with live upload progress.
             </Text>
           </Flex>
           
@@ -69,8 +73,8 @@ export function Store() {
           <Flex direction="column" gap="2">
             <Text size="3" weight="medium">3. Upload & Share</Text>
             <Text size="2" color="gray">
-              Files are encoded and distributed across Walrus nodes.
-              Get a unique Blob ID to share or retrieve your files.
+              Files are encoded and distributed across Walrus nodes, then a single
+              transaction buys storage and certifies each blob. Get a unique Blob ID to share.
             </Text>
           </Flex>
         </Grid>
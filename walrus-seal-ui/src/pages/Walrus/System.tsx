@@ -0,0 +1,36 @@
+import { Flex, Text, Card } from '@radix-ui/themes';
+import { SystemOverview } from '../../components/walrus/SystemOverview';
+import { useAppContext } from '../../context/AppContext';
+
+export function System() {
+  const { state } = useAppContext();
+
+  return (
+    <Flex direction="column" gap="6">
+      <Card style={{ padding: '24px', textAlign: 'center' }}>
+        <Text size="7" weight="bold" style={{ 
+          background: 'linear-gradient(45deg, #3b82f6, #1d4ed8)',
+          WebkitBackgroundClip: 'text',
+          WebkitTextFillColor: 'transparent',
+          marginBottom: '12px',
+          display: 'block'
+        }}>
+          System Info
+        </Text>
+        <Text size="4" color="gray">
+          Live epoch, capacity and committee data from the Walrus system and staking objects on {state.network.current}
+        </Text>
+      </Card>
+
+      {!state.wallet.connected && (
+        <Card style={{ padding: '16px', background: 'var(--orange-2)', border: '1px solid var(--orange-6)' }}>
+          <Text size="3" color="orange">
+            ⚠️ Connect your wallet to read the Walrus system state
+          </Text>
+        </Card>
+      )}
+
+      <SystemOverview />
+    </Flex>
+  );
+}
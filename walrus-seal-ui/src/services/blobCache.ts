@@ -0,0 +1,111 @@
+interface CachedBlob {
+  blobId: string;
+  data: Blob;
+  size: number;
+  verified: boolean; // content was hashed against its blob ID before it was stored
+  lastReadAt: number;
+}
+
+const DB_NAME = 'walrus-blob-cache';
+const STORE_NAME = 'blobs';
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Blob content is immutable for a given ID, so entries never go stale; they are only evicted by age
+export class BlobCache {
+  private db: Promise<IDBDatabase> | null = null;
+  private maxBytes: number;
+  private maxEntries: number;
+
+  constructor(maxBytes: number, maxEntries: number) {
+    this.maxBytes = maxBytes;
+    this.maxEntries = maxEntries;
+  }
+
+  async get(blobId: string): Promise<Pick<CachedBlob, 'data' | 'verified'> | undefined> {
+    try {
+      const store = await this.store('readwrite');
+      const entry = await request<CachedBlob | undefined>(store.get(blobId));
+      if (!entry) {
+        return undefined;
+      }
+
+      store.put({ ...entry, lastReadAt: Date.now() });
+      return { data: entry.data, verified: !!entry.verified };
+    } catch (error) {
+      console.error('Failed to read blob cache:', error);
+      return undefined;
+    }
+  }
+
+  async put(blobId: string, data: Blob, verified = false): Promise<void> {
+    if (data.size > this.maxBytes) {
+      return;
+    }
+
+    try {
+      const store = await this.store('readwrite');
+      await request(store.put({ blobId, data, size: data.size, verified, lastReadAt: Date.now() } satisfies CachedBlob));
+      await this.evict();
+    } catch (error) {
+      console.error('Failed to write blob cache:', error);
+    }
+  }
+
+  async delete(blobId: string): Promise<void> {
+    try {
+      const store = await this.store('readwrite');
+      await request(store.delete(blobId));
+    } catch (error) {
+      console.error('Failed to delete from blob cache:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.store('readwrite');
+    await request(store.clear());
+  }
+
+  private async evict(): Promise<void> {
+    const store = await this.store('readwrite');
+    const entries = await request<CachedBlob[]>(store.getAll());
+
+    // Least recently read first
+    entries.sort((a, b) => a.lastReadAt - b.lastReadAt);
+
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    let count = entries.length;
+    for (const entry of entries) {
+      if (totalBytes <= this.maxBytes && count <= this.maxEntries) {
+        break;
+      }
+      store.delete(entry.blobId);
+      totalBytes -= entry.size;
+      count--;
+    }
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, 1);
+        req.onupgradeneeded = () => {
+          req.result.createObjectStore(STORE_NAME, { keyPath: 'blobId' });
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,189 @@
+import { APP_CONFIG } from '../utils/constants';
+import type { WalrusEndpointHealth } from '../types/walrus';
+
+export class EndpointHttpError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'EndpointHttpError';
+    this.status = status;
+  }
+}
+
+interface EndpointStats {
+  latency: number | null; // smoothed milliseconds
+  unhealthyUntil: number;
+  lastError?: string;
+}
+
+// Shared across service instances so a wallet or network switch keeps what was learned about each endpoint
+const endpointStats = new Map<string, EndpointStats>();
+
+function statsFor(url: string): EndpointStats {
+  let stats = endpointStats.get(url);
+  if (!stats) {
+    stats = { latency: null, unhealthyUntil: 0 };
+    endpointStats.set(url, stats);
+  }
+  return stats;
+}
+
+// Client errors are answered the same way by every endpoint, so trying another one will not help
+function isRetryable(error: unknown): boolean {
+  if (error instanceof EndpointHttpError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return true;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class EndpointPool {
+  private name: WalrusEndpointHealth['name'];
+  private urls: string[];
+  private timeout: number;
+  private retries: number;
+
+  constructor(name: WalrusEndpointHealth['name'], urls: string[], timeout: number, retries: number) {
+    this.name = name;
+    this.urls = urls;
+    this.timeout = timeout;
+    this.retries = retries;
+  }
+
+  // Healthy endpoints by measured latency, unmeasured ones in configured order, failing ones last
+  ordered(): string[] {
+    const now = Date.now();
+    return this.urls
+      .map((url, index) => ({ url, index, stats: statsFor(url) }))
+      .sort((a, b) => {
+        const aHealthy = a.stats.unhealthyUntil <= now;
+        const bHealthy = b.stats.unhealthyUntil <= now;
+        if (aHealthy !== bHealthy) return aHealthy ? -1 : 1;
+        if (a.stats.latency !== null && b.stats.latency !== null) return a.stats.latency - b.stats.latency;
+        if (a.stats.latency !== null || b.stats.latency !== null) return a.stats.latency !== null ? -1 : 1;
+        return a.index - b.index;
+      })
+      .map(({ url }) => url);
+  }
+
+  preferred(): string {
+    return this.ordered()[0];
+  }
+
+  // The timeout bounds inactivity rather than the whole attempt: an attempt calls touch() whenever the
+  // endpoint shows progress, so long uploads and downloads are not cut off while data is still flowing
+  async request<T>(
+    attempt: (url: string, signal: AbortSignal, touch: () => void) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (let round = 0; round <= this.retries; round++) {
+      if (round > 0) {
+        await delay(APP_CONFIG.walrus.retryBaseDelay * 2 ** (round - 1), signal);
+      }
+
+      for (const url of this.ordered()) {
+        signal?.throwIfAborted();
+
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(signal?.reason);
+        signal?.addEventListener('abort', onAbort);
+
+        let timedOut = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const touch = () => {
+          clearTimeout(timer);
+          timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort(new DOMException('Timed out', 'TimeoutError'));
+          }, this.timeout);
+        };
+
+        touch();
+        const startedAt = performance.now();
+
+        try {
+          const result = await attempt(url, controller.signal, touch);
+          this.recordSuccess(url, performance.now() - startedAt);
+          return result;
+        } catch (error) {
+          if (signal?.aborted) {
+            throw error;
+          }
+          if (!isRetryable(error)) {
+            this.recordSuccess(url, performance.now() - startedAt);
+            throw error;
+          }
+
+          lastError = error;
+          this.recordFailure(url, timedOut ? 'Timed out' : error instanceof Error ? error.message : String(error));
+          console.warn(`Walrus ${this.name} ${url} failed, trying the next endpoint:`, error);
+        } finally {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  async probe(): Promise<WalrusEndpointHealth[]> {
+    await Promise.all(this.urls.map(async url => {
+      const startedAt = performance.now();
+      try {
+        const response = await fetch(`${url}/v1/api`, { method: 'HEAD', signal: AbortSignal.timeout(this.timeout) });
+        if (!response.ok) {
+          throw new Error(response.statusText || `HTTP ${response.status}`);
+        }
+        this.recordSuccess(url, performance.now() - startedAt);
+      } catch (error) {
+        this.recordFailure(url, error instanceof DOMException && error.name === 'TimeoutError'
+          ? 'Timed out'
+          : error instanceof Error ? error.message : String(error));
+      }
+    }));
+
+    const preferred = this.preferred();
+    return this.urls.map(url => {
+      const stats = statsFor(url);
+      const healthy = stats.unhealthyUntil <= Date.now();
+      return {
+        name: this.name,
+        url,
+        healthy,
+        preferred: url === preferred,
+        latency: healthy && stats.latency !== null ? Math.round(stats.latency) : null,
+        error: healthy ? undefined : stats.lastError
+      };
+    });
+  }
+
+  private recordSuccess(url: string, latency: number): void {
+    const stats = statsFor(url);
+    stats.latency = stats.latency === null ? latency : stats.latency * 0.7 + latency * 0.3;
+    stats.unhealthyUntil = 0;
+    stats.lastError = undefined;
+  }
+
+  private recordFailure(url: string, error: string): void {
+    const stats = statsFor(url);
+    stats.unhealthyUntil = Date.now() + APP_CONFIG.walrus.endpointCooldown;
+    stats.lastError = error;
+  }
+}
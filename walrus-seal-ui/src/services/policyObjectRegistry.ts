@@ -0,0 +1,34 @@
+// Policy objects the wallet administers are found through their Cap; this remembers the ones it was
+// invited to or bought access to, which cannot be discovered from the wallet's own objects
+export class PolicyObjectRegistry {
+  private storageKey: string;
+
+  constructor(kind: 'allowlist' | 'subscription', scope: string) {
+    this.storageKey = `seal-${kind}s:${scope}`;
+  }
+
+  list(): string[] {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      return raw ? (JSON.parse(raw) as string[]) : [];
+    } catch (error) {
+      console.error('Failed to read tracked policy objects:', error);
+      return [];
+    }
+  }
+
+  add(objectId: string): void {
+    const ids = this.list();
+    if (!ids.includes(objectId)) {
+      this.save([objectId, ...ids]);
+    }
+  }
+
+  remove(objectId: string): void {
+    this.save(this.list().filter(id => id !== objectId));
+  }
+
+  private save(ids: string[]): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(ids));
+  }
+}
@@ -0,0 +1,29 @@
+import type { QuiltInfo } from '../types/common';
+
+// Quilt patch identifiers only come back from the store call, so this browser remembers them
+export class QuiltRegistry {
+  private storageKey: string;
+
+  constructor(scope: string) {
+    this.storageKey = `walrus-quilts:${scope}`;
+  }
+
+  list(): QuiltInfo[] {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      const quilts = raw ? (JSON.parse(raw) as QuiltInfo[]) : [];
+      return quilts.map(quilt => ({ ...quilt, uploadedAt: new Date(quilt.uploadedAt) }));
+    } catch (error) {
+      console.error('Failed to read stored quilts:', error);
+      return [];
+    }
+  }
+
+  add(quilt: QuiltInfo): void {
+    this.save([quilt, ...this.list().filter(existing => existing.id !== quilt.id)]);
+  }
+
+  private save(quilts: QuiltInfo[]): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(quilts));
+  }
+}
@@ -0,0 +1,50 @@
+import type { RenewalPolicy, RenewalTarget } from '../types/walrus';
+
+export class RenewalPolicyStore {
+  private storageKey: string;
+
+  constructor(scope: string, owner: string) {
+    this.storageKey = `walrus-renewal-policies:${scope}:${owner}`;
+  }
+
+  list(): RenewalPolicy[] {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      return raw ? (JSON.parse(raw) as RenewalPolicy[]) : [];
+    } catch (error) {
+      console.error('Failed to read renewal policies:', error);
+      return [];
+    }
+  }
+
+  add(target: RenewalTarget, keepEpochsAhead: number): RenewalPolicy {
+    const policy: RenewalPolicy = {
+      id: crypto.randomUUID(),
+      target,
+      keepEpochsAhead,
+      createdAt: new Date().toISOString()
+    };
+
+    // One policy per target; adding again replaces the previous one
+    this.save([...this.list().filter(existing => !sameTarget(existing.target, target)), policy]);
+    return policy;
+  }
+
+  remove(id: string): void {
+    this.save(this.list().filter(policy => policy.id !== id));
+  }
+
+  private save(policies: RenewalPolicy[]): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(policies));
+  }
+}
+
+function sameTarget(a: RenewalTarget, b: RenewalTarget): boolean {
+  if (a.type === 'blob' && b.type === 'blob') {
+    return a.blobId === b.blobId;
+  }
+  if (a.type === 'attribute' && b.type === 'attribute') {
+    return a.key === b.key && a.value === b.value;
+  }
+  return false;
+}
@@ -6,19 +6,65 @@ import type {
   SealKeyServerInfo,
   SealDecryptionRequest,
   SealDecryptionResponse,
-  SealConfig
+  SealConfig,
+  SealAllowlistInfo,
+  SealSubscriptionConfig,
+  SealSubscriptionServiceInfo,
+  SealSubscriptionInfo
 } from '../types/seal';
+import type { Transaction, TransactionArgument } from '@mysten/sui/transactions';
+import type { DynamicFieldPage, PaginatedObjectsResponse } from '@mysten/sui/client';
+
+interface AllowlistFields {
+  id: { id: string };
+  name: string;
+  list: string[];
+}
+
+interface AllowlistCapFields {
+  id: { id: string };
+  allowlist_id: string;
+}
+
+interface SubscriptionServiceFields {
+  id: { id: string };
+  fee: string;
+  ttl: string;
+  owner: string;
+  name: string;
+}
+
+interface SubscriptionFields {
+  id: { id: string };
+  service_id: string;
+  created_at: string;
+}
+
+interface SubscriptionCapFields {
+  id: { id: string };
+  service_id: string;
+}
 
 export class SealService implements SealClient {
   private config: SealConfig;
   private sealClient: any; // SealClient from @mysten/seal
   private suiClient: any; // SuiClient from @mysten/sui
   private signPersonalMessage?: (message: string | Uint8Array) => Promise<{ signature: string; bytes: string }>;
-
-  constructor(config: SealConfig, suiClient?: any, signPersonalMessage?: (message: string | Uint8Array) => Promise<{ signature: string; bytes: string }>) {
+  private signAndExecuteTransaction?: (tx: Transaction) => Promise<{ digest: string }>;
+  private currentAddress?: string;
+
+  constructor(
+    config: SealConfig,
+    suiClient?: any,
+    signPersonalMessage?: (message: string | Uint8Array) => Promise<{ signature: string; bytes: string }>,
+    signAndExecuteTransaction?: (tx: Transaction) => Promise<{ digest: string }>,
+    currentAddress?: string
+  ) {
     this.config = config;
     this.suiClient = suiClient;
     this.signPersonalMessage = signPersonalMessage;
+    this.signAndExecuteTransaction = signAndExecuteTransaction;
+    this.currentAddress = currentAddress;
     // Don't initialize immediately - wait for explicit initialization
   }
 
@@ -764,21 +810,389 @@ export class SealService implements SealClient {
     }
   }
 
-  // Move contract integration methods
-  async createAllowlist(members: string[]): Promise<string> {
-    throw new Error('Allowlist management should be done via Move contracts on Sui blockchain - use Sui transaction building');
+  // Allowlist management against the `allowlist` module of the Seal example patterns package.
+  // The allowlist itself is shared; whoever holds its Cap may change the member list.
+  async createAllowlist(name: string, members: string[] = []): Promise<string> {
+    try {
+      const { Transaction } = await import('@mysten/sui/transactions');
+      this.requireAddress();
+
+      // Cap has no `store` ability, so only the entry function can hand it to the sender
+      const tx = new Transaction();
+      tx.moveCall({
+        target: `${this.config.packages.allowlist}::allowlist::create_allowlist_entry`,
+        arguments: [tx.pure.string(name)]
+      });
+
+      const changes = await this.executeForObjectChanges(tx);
+      const created = changes.find(change =>
+        change.type === 'created' && change.objectType.endsWith('::allowlist::Allowlist')
+      );
+      const cap = changes.find(change =>
+        change.type === 'created' && change.objectType.endsWith('::allowlist::Cap')
+      );
+      if (!created?.objectId || !cap?.objectId) {
+        throw new Error('No allowlist object was created');
+      }
+
+      // The allowlist is shared inside create_allowlist_entry, so members can only be added once it exists
+      if (members.length > 0) {
+        await this.updateAllowlist(created.objectId, 'add', members, cap.objectId);
+      }
+
+      return created.objectId;
+    } catch (error) {
+      console.error('Seal create allowlist error:', error);
+      throw new Error(`Allowlist creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getAllowlist(allowlistId: string): Promise<SealAllowlistInfo> {
+    try {
+      const [fields, blobIds, cap] = await Promise.all([
+        this.readAllowlist(allowlistId),
+        this.publishedBlobIds(allowlistId),
+        this.currentAddress ? this.findAllowlistCap(allowlistId) : Promise.resolve(undefined)
+      ]);
+
+      return {
+        id: fields.id.id,
+        name: fields.name,
+        members: fields.list,
+        blobIds,
+        capId: cap
+      };
+    } catch (error) {
+      console.error('Seal get allowlist error:', error);
+      throw new Error(`Allowlist lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
   async addToAllowlist(allowlistId: string, member: string): Promise<void> {
-    throw new Error('Allowlist management should be done via Move contracts on Sui blockchain - use Sui transaction building');
+    try {
+      await this.updateAllowlist(allowlistId, 'add', [member]);
+    } catch (error) {
+      console.error('Seal add to allowlist error:', error);
+      throw new Error(`Adding allowlist member failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
   async removeFromAllowlist(allowlistId: string, member: string): Promise<void> {
-    throw new Error('Allowlist management should be done via Move contracts on Sui blockchain - use Sui transaction building');
+    try {
+      await this.updateAllowlist(allowlistId, 'remove', [member]);
+    } catch (error) {
+      console.error('Seal remove from allowlist error:', error);
+      throw new Error(`Removing allowlist member failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async ownedAllowlistIds(): Promise<string[]> {
+    try {
+      const caps = await this.ownedAllowlistCaps();
+      return caps.map(cap => cap.allowlist_id);
+    } catch (error) {
+      console.error('Seal owned allowlists error:', error);
+      throw new Error(`Allowlist lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Attaches Walrus blobs to the allowlist as dynamic fields keyed by blob ID, so members can discover them
+  async publishToAllowlist(allowlistId: string, blobIds: string[]): Promise<void> {
+    try {
+      const { Transaction } = await import('@mysten/sui/transactions');
+
+      const capId = await this.findAllowlistCap(allowlistId);
+      if (!capId) {
+        throw new Error('The connected wallet does not hold the Cap for this allowlist');
+      }
+
+      const tx = new Transaction();
+      for (const blobId of blobIds) {
+        tx.moveCall({
+          target: `${this.config.packages.allowlist}::allowlist::publish`,
+          arguments: [tx.object(allowlistId), tx.object(capId), tx.pure.string(blobId)]
+        });
+      }
+
+      await this.executeForObjectChanges(tx);
+    } catch (error) {
+      console.error('Seal publish to allowlist error:', error);
+      throw new Error(`Attaching files to allowlist failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
   async checkAllowlistMembership(allowlistId: string, member: string): Promise<boolean> {
-    throw new Error('Allowlist membership should be checked via Move contracts on Sui blockchain - use Sui object queries');
+    try {
+      const { normalizeSuiAddress } = await import('@mysten/sui/utils');
+      const fields = await this.readAllowlist(allowlistId);
+      const normalizedMember = normalizeSuiAddress(member);
+      return fields.list.some(address => normalizeSuiAddress(address) === normalizedMember);
+    } catch (error) {
+      console.error('Seal allowlist membership check error:', error);
+      throw new Error(`Allowlist membership check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Subscription services from the `subscription` module of the Seal example patterns package.
+  // Fees are paid in SUI to the service creator; a Subscription grants access for the service's TTL.
+  async createSubscriptionService(name: string, config: SealSubscriptionConfig): Promise<string> {
+    try {
+      const { Transaction } = await import('@mysten/sui/transactions');
+      const { normalizeSuiAddress } = await import('@mysten/sui/utils');
+      const address = this.requireAddress();
+
+      if (normalizeSuiAddress(config.feeCollector) !== normalizeSuiAddress(address)) {
+        throw new Error('Subscription fees are always paid to the wallet that creates the service');
+      }
+
+      // Like Subscription, the service Cap has no `store` ability and is handed over by the entry function
+      const tx = new Transaction();
+      tx.moveCall({
+        target: `${this.config.packages.subscription}::subscription::create_service_entry`,
+        arguments: [tx.pure.u64(config.pricePerAccess), tx.pure.u64(config.duration), tx.pure.string(name)]
+      });
+
+      const changes = await this.executeForObjectChanges(tx);
+      const created = changes.find(change =>
+        change.type === 'created' && change.objectType.endsWith('::subscription::Service')
+      );
+      const cap = changes.find(change =>
+        change.type === 'created' && change.objectType.endsWith('::subscription::Cap')
+      );
+      if (!created?.objectId || !cap?.objectId) {
+        throw new Error('No subscription service object was created');
+      }
+      return created.objectId;
+    } catch (error) {
+      console.error('Seal create subscription service error:', error);
+      throw new Error(`Subscription service creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getSubscriptionService(serviceId: string): Promise<SealSubscriptionServiceInfo> {
+    try {
+      const [fields, blobIds, caps] = await Promise.all([
+        this.readObjectFields<SubscriptionServiceFields>(serviceId, '::subscription::Service', 'a subscription service'),
+        this.publishedBlobIds(serviceId),
+        this.currentAddress ? this.ownedSubscriptionCaps() : Promise.resolve([])
+      ]);
+
+      return {
+        id: fields.id.id,
+        name: fields.name,
+        fee: Number(fields.fee),
+        ttl: Number(fields.ttl),
+        owner: fields.owner,
+        blobIds,
+        capId: caps.find(cap => cap.service_id === serviceId)?.id.id
+      };
+    } catch (error) {
+      console.error('Seal get subscription service error:', error);
+      throw new Error(`Subscription service lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async ownedSubscriptionServiceIds(): Promise<string[]> {
+    try {
+      const caps = await this.ownedSubscriptionCaps();
+      return caps.map(cap => cap.service_id);
+    } catch (error) {
+      console.error('Seal owned subscription services error:', error);
+      throw new Error(`Subscription service lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async publishToSubscriptionService(serviceId: string, blobIds: string[]): Promise<void> {
+    try {
+      const { Transaction } = await import('@mysten/sui/transactions');
+
+      const caps = await this.ownedSubscriptionCaps();
+      const capId = caps.find(cap => cap.service_id === serviceId)?.id.id;
+      if (!capId) {
+        throw new Error('The connected wallet does not hold the Cap for this subscription service');
+      }
+
+      const tx = new Transaction();
+      for (const blobId of blobIds) {
+        tx.moveCall({
+          target: `${this.config.packages.subscription}::subscription::publish`,
+          arguments: [tx.object(serviceId), tx.object(capId), tx.pure.string(blobId)]
+        });
+      }
+
+      await this.executeForObjectChanges(tx);
+    } catch (error) {
+      console.error('Seal publish to subscription service error:', error);
+      throw new Error(`Attaching files to subscription service failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async subscribe(serviceId: string): Promise<string> {
+    try {
+      const { Transaction } = await import('@mysten/sui/transactions');
+      const address = this.requireAddress();
+      const service = await this.readObjectFields<SubscriptionServiceFields>(serviceId, '::subscription::Service', 'a subscription service');
+
+      // Subscription has no `store` ability, so it can only be handed over through the module's transfer
+      const tx = new Transaction();
+      const [fee] = tx.splitCoins(tx.gas, [tx.pure.u64(service.fee)]);
+      const subscription = tx.moveCall({
+        target: `${this.config.packages.subscription}::subscription::subscribe`,
+        arguments: [fee, tx.object(serviceId), tx.object.clock()]
+      });
+      tx.moveCall({
+        target: `${this.config.packages.subscription}::subscription::transfer`,
+        arguments: [subscription, tx.pure.address(address)]
+      });
+
+      const changes = await this.executeForObjectChanges(tx);
+      const created = changes.find(change =>
+        change.type === 'created' && change.objectType.endsWith('::subscription::Subscription')
+      );
+      if (!created?.objectId) {
+        throw new Error('No subscription object was created');
+      }
+      return created.objectId;
+    } catch (error) {
+      console.error('Seal subscribe error:', error);
+      throw new Error(`Subscribing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async ownedSubscriptions(): Promise<SealSubscriptionInfo[]> {
+    try {
+      const subscriptions = await this.ownedObjectFields<SubscriptionFields>(
+        `${this.config.packages.subscription}::subscription::Subscription`
+      );
+      return subscriptions.map(subscription => ({
+        id: subscription.id.id,
+        serviceId: subscription.service_id,
+        createdAt: Number(subscription.created_at)
+      }));
+    } catch (error) {
+      console.error('Seal owned subscriptions error:', error);
+      throw new Error(`Subscription lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async ownedSubscriptionCaps(): Promise<SubscriptionCapFields[]> {
+    return this.ownedObjectFields<SubscriptionCapFields>(`${this.config.packages.subscription}::subscription::Cap`);
+  }
+
+  private async updateAllowlist(allowlistId: string, action: 'add' | 'remove', members: string[], knownCapId?: string): Promise<void> {
+    const { Transaction } = await import('@mysten/sui/transactions');
+    const { isValidSuiAddress, normalizeSuiAddress } = await import('@mysten/sui/utils');
+
+    const invalid = members.find(member => !isValidSuiAddress(normalizeSuiAddress(member)));
+    if (invalid) {
+      throw new Error(`Invalid Sui address: ${invalid}`);
+    }
+
+    // A just-created Cap may not be indexed as owned yet, so creation passes its ID along
+    const capId = knownCapId ?? await this.findAllowlistCap(allowlistId);
+    if (!capId) {
+      throw new Error('The connected wallet does not hold the Cap for this allowlist');
+    }
+
+    const tx = new Transaction();
+    for (const member of members) {
+      tx.moveCall({
+        target: `${this.config.packages.allowlist}::allowlist::${action}`,
+        arguments: [tx.object(allowlistId), tx.object(capId), tx.pure.address(normalizeSuiAddress(member))]
+      });
+    }
+
+    await this.executeForObjectChanges(tx);
+  }
+
+  private async readAllowlist(allowlistId: string): Promise<AllowlistFields> {
+    return this.readObjectFields<AllowlistFields>(allowlistId, '::allowlist::Allowlist', 'an allowlist');
+  }
+
+  private async readObjectFields<T>(objectId: string, typeSuffix: string, description: string): Promise<T> {
+    const object = await this.suiClient.getObject({ id: objectId, options: { showContent: true } });
+    const content = object.data?.content;
+    if (!content || content.dataType !== 'moveObject' || !content.type.endsWith(typeSuffix)) {
+      throw new Error(`Object ${objectId} is not ${description}`);
+    }
+    return content.fields as T;
+  }
+
+  private async findAllowlistCap(allowlistId: string): Promise<string | undefined> {
+    const caps = await this.ownedAllowlistCaps();
+    return caps.find(cap => cap.allowlist_id === allowlistId)?.id.id;
+  }
+
+  private async ownedAllowlistCaps(): Promise<AllowlistCapFields[]> {
+    return this.ownedObjectFields<AllowlistCapFields>(`${this.config.packages.allowlist}::allowlist::Cap`);
+  }
+
+  private async ownedObjectFields<T>(structType: string): Promise<T[]> {
+    const owner = this.requireAddress();
+    const objects: T[] = [];
+    let cursor: string | null | undefined = undefined;
+
+    do {
+      const page: PaginatedObjectsResponse = await this.suiClient.getOwnedObjects({
+        owner,
+        cursor,
+        filter: { StructType: structType },
+        options: { showContent: true }
+      });
+
+      for (const object of page.data) {
+        const content = object.data?.content;
+        if (content?.dataType === 'moveObject') {
+          objects.push(content.fields as unknown as T);
+        }
+      }
+
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    return objects;
+  }
+
+  private async publishedBlobIds(policyObjectId: string): Promise<string[]> {
+    const blobIds: string[] = [];
+    let cursor: string | null | undefined = undefined;
+
+    do {
+      const page: DynamicFieldPage = await this.suiClient.getDynamicFields({ parentId: policyObjectId, cursor });
+      for (const field of page.data) {
+        if (typeof field.name.value === 'string') {
+          blobIds.push(field.name.value);
+        }
+      }
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    return blobIds;
+  }
+
+  // Wallets only report the digest, so object changes are read back once the transaction is indexed
+  private async executeForObjectChanges(tx: Transaction): Promise<{ type: string; objectId?: string; objectType: string }[]> {
+    if (!this.signAndExecuteTransaction) {
+      throw new Error('Wallet transaction signing not available - please ensure wallet is connected');
+    }
+
+    const { digest } = await this.signAndExecuteTransaction(tx);
+    const result = await this.suiClient.waitForTransaction({
+      digest,
+      options: { showEffects: true, showObjectChanges: true }
+    });
+
+    if (result.effects?.status?.status !== 'success') {
+      throw new Error(result.effects?.status?.error || 'Transaction failed');
+    }
+    return result.objectChanges ?? [];
+  }
+
+  private requireAddress(): string {
+    if (!this.currentAddress) {
+      throw new Error('Wallet not connected');
+    }
+    return this.currentAddress;
   }
 
   // Utility methods
@@ -815,7 +1229,8 @@ export class SealService implements SealClient {
         target: `${normalizedPackageId}::${moduleName}::${functionName}`,
         arguments: [
           tx.pure.vector('u8', fromHEX(normalizedId)), // Convert hex string to bytes
-          ...(args as any[])
+          // Policy objects are passed by ID; anything else must already be a transaction argument
+          ...args.map(arg => typeof arg === 'string' ? tx.object(arg) : arg as TransactionArgument)
         ]
       });
 
@@ -0,0 +1,32 @@
+export class SharedBlobRegistry {
+  private storageKey: string;
+
+  constructor(scope: string) {
+    this.storageKey = `walrus-shared-blobs:${scope}`;
+  }
+
+  list(): string[] {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      return raw ? (JSON.parse(raw) as string[]) : [];
+    } catch (error) {
+      console.error('Failed to read tracked shared blobs:', error);
+      return [];
+    }
+  }
+
+  add(sharedObjectId: string): void {
+    const ids = this.list();
+    if (!ids.includes(sharedObjectId)) {
+      this.save([sharedObjectId, ...ids]);
+    }
+  }
+
+  remove(sharedObjectId: string): void {
+    this.save(this.list().filter(id => id !== sharedObjectId));
+  }
+
+  private save(ids: string[]): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(ids));
+  }
+}
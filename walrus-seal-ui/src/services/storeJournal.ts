@@ -0,0 +1,71 @@
+import type { PendingStore } from '../types/walrus';
+
+export class StoreJournal {
+  private storageKey: string;
+
+  constructor(scope: string, owner: string) {
+    this.storageKey = `walrus-pending-stores:${scope}:${owner}`;
+  }
+
+  list(): PendingStore[] {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      return raw ? (JSON.parse(raw) as PendingStore[]) : [];
+    } catch (error) {
+      console.error('Failed to read pending stores:', error);
+      return [];
+    }
+  }
+
+  get(id: string): PendingStore | undefined {
+    return this.list().find(entry => entry.id === id);
+  }
+
+  findForFile(file: File, epochs: number): PendingStore | undefined {
+    const fileKey = StoreJournal.fileKey(file);
+    return this.list().find(entry => entry.fileKey === fileKey && entry.epochs === epochs);
+  }
+
+  create(file: File, epochs: number, deletable: boolean, attributes?: Record<string, string>): PendingStore {
+    const now = new Date().toISOString();
+    const entry: PendingStore = {
+      id: crypto.randomUUID(),
+      fileName: file.name,
+      fileKey: StoreJournal.fileKey(file),
+      size: file.size,
+      epochs,
+      deletable,
+      attributes,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.save([...this.list(), entry]);
+    return entry;
+  }
+
+  update(id: string, data: Partial<PendingStore>): PendingStore {
+    const entries = this.list();
+    const index = entries.findIndex(entry => entry.id === id);
+
+    if (index === -1) {
+      throw new Error(`Pending store not found: ${id}`);
+    }
+
+    entries[index] = { ...entries[index], ...data, updatedAt: new Date().toISOString() };
+    this.save(entries);
+    return entries[index];
+  }
+
+  remove(id: string): void {
+    this.save(this.list().filter(entry => entry.id !== id));
+  }
+
+  static fileKey(file: File): string {
+    return `${file.name}:${file.size}:${file.lastModified}`;
+  }
+
+  private save(entries: PendingStore[]): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(entries));
+  }
+}
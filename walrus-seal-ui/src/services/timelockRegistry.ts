@@ -0,0 +1,32 @@
+import type { SealTimelockEntry } from '../types/seal';
+
+// Time-locked blobs have no on-chain object to discover them by, so this browser remembers them
+export class TimelockRegistry {
+  private storageKey: string;
+
+  constructor(scope: string) {
+    this.storageKey = `seal-timelocks:${scope}`;
+  }
+
+  list(): SealTimelockEntry[] {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      return raw ? (JSON.parse(raw) as SealTimelockEntry[]) : [];
+    } catch (error) {
+      console.error('Failed to read tracked time-locked blobs:', error);
+      return [];
+    }
+  }
+
+  add(entry: SealTimelockEntry): void {
+    this.save([entry, ...this.list().filter(existing => existing.blobId !== entry.blobId)]);
+  }
+
+  remove(blobId: string): void {
+    this.save(this.list().filter(entry => entry.blobId !== blobId));
+  }
+
+  private save(entries: SealTimelockEntry[]): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(entries));
+  }
+}
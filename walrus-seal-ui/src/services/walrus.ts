@@ -2,28 +2,215 @@ import type {
   WalrusClient, 
   WalrusStoreOptions, 
   WalrusStoreResult, 
+  WalrusReadOptions,
+  WalrusBlobRange,
+  WalrusCostEstimate,
+  ExtendBlobConfig,
+  SharedBlobConfig,
+  SharedBlobInfo,
+  SharedBlobContribution,
+  WalrusFileStoreResult,
+  WalrusStorePhase,
   WalrusBlobStatus,
   WalrusBlobInfo,
+  OwnedBlobInfo,
   WalrusSystemInfo,
   QuiltFile,
+  QuiltPatch,
   WalrusQuiltResult,
   WalrusConfig,
-  AvailabilityCertificate
+  AvailabilityCertificate,
+  PendingStore,
+  BlobDeletionPreview,
+  WalrusStorageResource
 } from '../types/walrus';
 
+import { bcs } from '@mysten/sui/bcs';
 import { SuiClient } from '@mysten/sui/client';
+import type { SuiObjectResponse, SuiTransactionBlockResponse } from '@mysten/sui/client';
 import { Transaction } from '@mysten/sui/transactions';
+import type { TransactionObjectArgument, TransactionResult } from '@mysten/sui/transactions';
+import { deriveDynamicFieldID, fromBase64, toBase64 } from '@mysten/sui/utils';
+import type { WalrusClient as WalrusNodeClient } from '@mysten/walrus';
+import { APP_CONFIG } from '../utils/constants';
+import { blobIdFromInt, blobIdToInt, epochToDate, matchesAttributes, sniffMimeType } from '../utils/walrus';
+import type { EpochTiming } from '../utils/walrus';
+import { estimateEncodedSize, storageUnitsFromSize } from '../utils/config';
+import { StoreJournal } from './storeJournal';
+import { BlobCache } from './blobCache';
+import { EndpointPool, EndpointHttpError } from './endpointPool';
+
+// Effects the wallet signer reads back for every transaction it executes
+export const TRANSACTION_RESPONSE_OPTIONS = {
+  showEffects: true,
+  showEvents: true,
+  showObjectChanges: true,
+  showBalanceChanges: true
+};
+
+// The wallet executed the transaction, but its effects could not be read back
+export class ExecutedTransactionError extends Error {
+  digest: string;
+
+  constructor(message: string, digest: string) {
+    super(message);
+    this.name = 'ExecutedTransactionError';
+    this.digest = digest;
+  }
+}
+
+// Blobs are registered with the RS2 Reed-Solomon encoding the publishers and the SDK use
+const RS2_ENCODING_TYPE = 1;
+
+// certify_blob takes the signing committee members as a little-endian bitmap over member indices
+function signersBitmap(signers: number[], committeeSize: number): Uint8Array {
+  const bitmap = new Uint8Array(Math.ceil(committeeSize / 8));
+  for (const signer of signers) {
+    bitmap[Math.floor(signer / 8)] |= 1 << (signer % 8);
+  }
+  return bitmap;
+}
+
+function isUserRejection(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /reject|denied|cancel/i.test(message);
+}
+
+interface BlobObjectFields {
+  id: { id: string };
+  blob_id: string;
+  size: string;
+  registered_epoch: number;
+  certified_epoch: number | null;
+  deletable: boolean;
+  storage: {
+    fields: StorageFields;
+  };
+}
+
+interface StorageFields {
+  id: { id: string };
+  start_epoch: number;
+  end_epoch: number;
+  storage_size: string;
+}
+
+interface SystemStateFields {
+  committee: {
+    fields: {
+      epoch: number;
+      n_shards: number;
+      members: unknown[];
+    };
+  };
+  total_capacity_size: string;
+  used_capacity_size: string;
+  storage_price_per_unit_size: string;
+  write_price_per_unit_size: string;
+}
+
+interface StakingStateFields {
+  n_shards: number;
+  epoch: number;
+  epoch_duration: string;
+  first_epoch_start: string;
+  committee: {
+    fields: {
+      pos0: { fields: { contents: { fields: { key: string; value: number[] } }[] } };
+    };
+  };
+  epoch_state: {
+    variant: 'EpochChangeSync' | 'EpochChangeDone' | 'NextParamsSelected';
+    fields: { pos0: string };
+  };
+}
+
+interface SharedBlobFields {
+  id: { id: string };
+  blob: { fields: BlobObjectFields };
+  funds: string;
+}
+
+interface StakingPoolFields {
+  node_info: {
+    fields: {
+      network_address: string;
+    };
+  };
+}
+
+interface BlobCertifiedEvent {
+  epoch: number;
+  blob_id: string;
+  end_epoch: number;
+  deletable: boolean;
+  object_id: string;
+  is_extension: boolean;
+}
+
+type RawStorageNodeBlobStatus =
+  | 'nonexistent'
+  | { invalid: { event: { txDigest: string; eventSeq: string } } }
+  | { permanent: Omit<StorageNodeBlobStatus, 'type'> }
+  | { deletable: Omit<StorageNodeBlobStatus, 'type'> };
+
+interface StorageNodeBlobStatus {
+  type: 'nonexistent' | 'invalid' | 'permanent' | 'deletable';
+  endEpoch?: number;
+  isCertified?: boolean;
+  statusEvent?: { txDigest: string; eventSeq: string };
+  initialCertifiedEpoch?: number | null;
+}
+
+interface BlobMetadataField {
+  value: {
+    fields: {
+      metadata: {
+        fields: {
+          contents: { fields: { key: string; value: string } }[];
+        };
+      };
+    };
+  };
+}
+
+const METADATA_FIELD_NAME = Array.from(new TextEncoder().encode('metadata'));
+const METADATA_FIELD_KEY = bcs.vector(bcs.u8()).serialize(METADATA_FIELD_NAME).toBytes();
+
+// Endpoint round trips above this are reported as degraded
+const SLOW_ENDPOINT_MS = 2000;
+
+// Runs at most `limit` lookups at a time, keeping results in input order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
 
 export class WalrusService implements WalrusClient {
-  private config: WalrusConfig;
-  private suiClient: SuiClient;
-  private signTransaction: (tx: Transaction) => Promise<any>;
-  private currentAddress: string;
+  protected config: WalrusConfig;
+  protected suiClient: SuiClient;
+  protected signTransaction: (tx: Transaction) => Promise<SuiTransactionBlockResponse>;
+  protected currentAddress: string;
+  protected journal: StoreJournal;
+  private blobCache: BlobCache;
+  private aggregators: EndpointPool;
+  private publishers: EndpointPool;
+  private nodeClientPromise: Promise<WalrusNodeClient> | null = null;
 
   constructor(
     config: WalrusConfig, 
     suiClient: SuiClient, 
-    signTransaction: (tx: Transaction) => Promise<any>,
+    signTransaction: (tx: Transaction) => Promise<SuiTransactionBlockResponse>,
     currentAddress: string
   ) {
     console.log('WalrusService constructor called with:', {
@@ -39,336 +226,1732 @@ export class WalrusService implements WalrusClient {
     this.suiClient = suiClient;
     this.signTransaction = signTransaction;
     this.currentAddress = currentAddress;
+    this.journal = new StoreJournal(config.systemObjectId, currentAddress);
+    this.blobCache = new BlobCache(APP_CONFIG.walrus.blobCacheMaxBytes, APP_CONFIG.walrus.blobCacheMaxEntries);
+    
+    const timeout = config.timeout ?? SLOW_ENDPOINT_MS * 5;
+    const retries = config.retries ?? 1;
+    this.aggregators = new EndpointPool('aggregator', config.aggregators ?? [config.aggregator], timeout, retries);
+    this.publishers = new EndpointPool('publisher', config.publishers ?? [config.publisher], timeout, retries);
     
     console.log('WalrusService initialized successfully');
   }
 
-  async store(files: File[], options: WalrusStoreOptions): Promise<WalrusStoreResult> {
-    try {
-      console.log('WalrusService.store called with:', {
-        filesCount: files.length,
-        options: options,
-        hasConfig: !!this.config,
-        hasSuiClient: !!this.suiClient,
-        hasAddress: !!this.currentAddress
+  async store(files: File[], options: WalrusStoreOptions): Promise<WalrusFileStoreResult[]> {
+    console.log('WalrusService.store called with:', {
+      filesCount: files.length,
+      options: options,
+      hasConfig: !!this.config,
+      hasSuiClient: !!this.suiClient,
+      hasAddress: !!this.currentAddress
+    });
+    
+    if (files.length === 0) {
+      throw new Error('No files provided');
+    }
+    
+    const results: WalrusFileStoreResult[] = [];
+    const { reuseStorage, ...fileOptions } = options;
+    const reuse = reuseStorage ? await this.reuseOptions(reuseStorage, options) : undefined;
+    
+    for (const [fileIndex, file] of files.entries()) {
+      if (options.signal?.aborted) {
+        results.push({ fileName: file.name, size: file.size, status: 'cancelled', error: 'Upload cancelled' });
+        continue;
+      }
+
+      try {
+        // Reclaimed storage holds a single blob, so only the first file is stored on it
+        const result = fileIndex === 0 && reuse
+          ? await this.storeFile(file, await reuse(file), fileIndex, files.length)
+          : await this.storeFile(file, fileOptions, fileIndex, files.length);
+        results.push({ fileName: file.name, size: file.size, status: 'stored', result });
+      } catch (error) {
+        if (options.signal?.aborted) {
+          results.push({ fileName: file.name, size: file.size, status: 'cancelled', error: 'Upload cancelled' });
+          continue;
+        }
+
+        console.error(`Walrus store error for ${file.name}:`, error);
+        results.push({
+          fileName: file.name,
+          size: file.size,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    
+    return results;
+  }
+
+  // Storage already fixes the blob's lifetime, so the requested epochs are replaced by what it has left
+  private async reuseOptions(
+    storage: WalrusStorageResource,
+    options: WalrusStoreOptions
+  ): Promise<(file: File) => Promise<WalrusStoreOptions>> {
+    const systemState = await this.systemState();
+    const remainingEpochs = storage.endEpoch - systemState.committee.fields.epoch;
+    if (remainingEpochs <= 0) {
+      throw new Error('The reclaimed storage has expired');
+    }
+
+    return async file => {
+      const encodedSize = estimateEncodedSize(file.size, systemState.committee.fields.n_shards);
+      if (encodedSize > storage.size) {
+        throw new Error(`${file.name} needs ${encodedSize} bytes of storage but the reclaimed storage holds ${storage.size}`);
+      }
+      return { ...options, epochs: remainingEpochs };
+    };
+  }
+
+  pendingStores(): PendingStore[] {
+    return this.journal.list();
+  }
+
+  async resumeStore(
+    pendingId: string,
+    file: File,
+    options: Pick<WalrusStoreOptions, 'signal' | 'onProgress'> = {}
+  ): Promise<WalrusStoreResult> {
+    let pending = this.journal.get(pendingId);
+    if (!pending) {
+      throw new Error(`Pending store not found: ${pendingId}`);
+    }
+
+    // A different file can only take over the purchased storage before a blob is registered on it
+    if (StoreJournal.fileKey(file) !== pending.fileKey) {
+      if (pending.blobObjectId || pending.commitDigest || pending.registerDigest) {
+        throw new Error(`Storage of ${pending.fileName} is already registered to its blob and cannot be reused`);
+      }
+      if (pending.storage && file.size > pending.storage.size) {
+        throw new Error(`${file.name} does not fit into the ${pending.storage.size} bytes of purchased storage`);
+      }
+
+      pending = this.journal.update(pendingId, {
+        fileName: file.name,
+        fileKey: StoreJournal.fileKey(file),
+        size: file.size,
+        certificate: undefined,
+        lastError: undefined
       });
-      
-      if (files.length === 0) {
-        throw new Error('No files provided');
+    }
+
+    return this.storeFile(file, { epochs: pending.epochs, deletable: pending.deletable, ...options }, 0, 1, pending);
+  }
+
+  discardPendingStore(pendingId: string): void {
+    this.journal.remove(pendingId);
+  }
+
+  protected async storeFile(
+    file: File,
+    options: WalrusStoreOptions,
+    fileIndex: number,
+    fileCount: number,
+    pending?: PendingStore
+  ): Promise<WalrusStoreResult> {
+    const report = (phase: WalrusStorePhase, bytesUploaded = 0) => {
+      options.onProgress?.({
+        fileName: file.name,
+        fileIndex,
+        fileCount,
+        phase,
+        bytesUploaded,
+        totalBytes: file.size
+      });
+    };
+    
+    let entry = pending
+      ?? this.journal.findForFile(file, options.epochs)
+      ?? this.journal.create(file, options.epochs, options.deletable ?? false, options.attributes);
+    
+    if (options.reuseStorage && !entry.storage) {
+      entry = this.journal.update(entry.id, {
+        storage: { objectId: options.reuseStorage.objectId, size: file.size, cost: 0, gasUsed: 0 }
+      });
+    }
+    
+    let certified = false;
+    
+    try {
+      // A combined transaction that ran but could not be read back is resolved from its digest
+      if (entry.commitDigest && !entry.blobObjectId) {
+        this.throwIfAborted(options.signal);
+        report('commit', file.size);
+        const result = await this.executedTransaction(entry.commitDigest);
+        entry = this.journal.update(entry.id, await this.committedObjects(result, file.size, entry.storage));
       }
+      certified = !!entry.commitDigest;
       
-      const file = files[0];
-      const blobData = new Uint8Array(await file.arrayBuffer());
+      if (options.singleTransaction !== false) {
+        // Upload first so that purchase, registration and certification fit into one signature
+        if (!entry.certificate) {
+          this.throwIfAborted(options.signal);
+          report('upload');
+          const certificate = await this.uploadBlob(file, {
+            signal: options.signal,
+            onProgress: bytesUploaded => report('upload', bytesUploaded)
+          });
+          entry = this.journal.update(entry.id, { certificate });
+        }
+        
+        if (!entry.blobObjectId) {
+          this.throwIfAborted(options.signal);
+          report('commit', file.size);
+          
+          try {
+            const committed = await this.commitBlob(
+              entry.id,
+              entry.certificate!,
+              options.epochs,
+              file.size,
+              entry.deletable,
+              entry.storage,
+              entry.attributes
+            );
+            entry = this.journal.update(entry.id, committed);
+            certified = true;
+          } catch (error) {
+            // Once the transaction has run, the separate steps would buy and register everything a second time
+            const digest = error instanceof ExecutedTransactionError ? error.digest : this.journal.get(entry.id)?.commitDigest;
+            if (digest) {
+              entry = this.journal.update(entry.id, { commitDigest: digest });
+              throw error;
+            }
+            if (isUserRejection(error)) {
+              throw error;
+            }
+            console.warn('Single-transaction store failed, falling back to separate steps:', error);
+          }
+        }
+      }
       
       // Step 1: Purchase storage epochs
-      const storage = await this.purchaseStorage(options.epochs, blobData.length);
+      if (!entry.storage) {
+        this.throwIfAborted(options.signal);
+        report('purchase');
+        const storage = await this.purchaseStorage(options.epochs, file.size);
+        entry = this.journal.update(entry.id, { storage: { ...storage, size: file.size } });
+      }
+      const storage = entry.storage!;
       
       // Step 2: Upload blob and get availability certificate
-      const certificate = await this.uploadBlob(blobData);
+      if (!entry.certificate) {
+        this.throwIfAborted(options.signal);
+        report('upload');
+        const certificate = await this.uploadBlob(file, {
+          signal: options.signal,
+          onProgress: bytesUploaded => report('upload', bytesUploaded)
+        });
+        entry = this.journal.update(entry.id, { certificate });
+      }
+      const certificate = entry.certificate!;
       
       // Step 3: Register blob on Sui blockchain
-      const blobObjectId = await this.registerBlob(certificate.blobId, storage);
+      if (!entry.blobObjectId) {
+        this.throwIfAborted(options.signal);
+        report('register', file.size);
+        const blobObjectId = await this.registerBlob(certificate, storage, file.size, entry.deletable, entry.attributes);
+        entry = this.journal.update(entry.id, { blobObjectId });
+      }
       
       // Step 4: Certify blob with availability certificate
-      await this.certifyBlob(certificate);
+      if (!certified) {
+        this.throwIfAborted(options.signal);
+        report('certify', file.size);
+        await this.certifyBlob(entry.blobObjectId!, certificate);
+      }
+      
+      this.journal.remove(entry.id);
+      report('complete', file.size);
       
       return {
         blobId: certificate.blobId,
-        suiObjectId: blobObjectId,
+        suiObjectId: entry.blobObjectId,
         epochs: options.epochs,
         cost: storage.cost,
         gasUsed: storage.gasUsed
       };
     } catch (error) {
-      console.error('Walrus store error:', error);
+      if (!entry.storage && !entry.certificate) {
+        this.journal.remove(entry.id);
+      } else {
+        this.journal.update(entry.id, { lastError: error instanceof Error ? error.message : String(error) });
+      }
       throw error;
     }
   }
 
-  async read(blobId: string): Promise<Blob> {
+  protected throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new DOMException('Upload cancelled', 'AbortError');
+    }
+  }
+
+  async read(blobId: string, options: WalrusReadOptions = {}): Promise<Blob> {
+    const useCache = options.cache ?? true;
+    
     try {
-      const response = await fetch(`${this.config.aggregator}/v1/blobs/${blobId}`);
-      
-      if (!response.ok) {
-        throw new Error(`Read failed: ${response.statusText}`);
+      const cached = useCache ? await this.blobCache.get(blobId) : undefined;
+      if (cached) {
+        // Entries are hashed at most once; a verified entry is trusted from then on
+        if (options.verify && !cached.verified) {
+          try {
+            await this.verifyBlobId(blobId, cached.data);
+          } catch (error) {
+            await this.blobCache.delete(blobId);
+            throw error;
+          }
+          await this.blobCache.put(blobId, cached.data, true);
+        }
+        return cached.data;
       }
+      
+      const body = await this.aggregators.request(async (url, signal, touch) => {
+        const response = await fetch(`${url}/v1/blobs/${blobId}`, { signal });
+        if (!response.ok) {
+          throw new EndpointHttpError(`Read failed: ${response.statusText}`, response.status);
+        }
+        return this.readBody(response, touch);
+      }, options.signal);
 
-      return await response.blob();
+      // Verify before caching so that a corrupted response never becomes a cache entry
+      if (options.verify) {
+        await this.verifyBlobId(blobId, body);
+      }
+      
+      const data = await this.withContentType(body);
+      if (useCache) {
+        await this.blobCache.put(blobId, data, !!options.verify);
+      }
+      return data;
     } catch (error) {
       console.error('Walrus read error:', error);
       throw error;
     }
   }
 
-  async status(blobId: string): Promise<WalrusBlobStatus> {
+  async readRange(blobId: string, start: number, end?: number, options: WalrusReadOptions = {}): Promise<WalrusBlobRange> {
+    const useCache = options.cache ?? true;
+    
     try {
-      // Check blob status on Sui blockchain
-      const blobObjects = await this.suiClient.getOwnedObjects({
-        owner: this.currentAddress,
-        filter: {
-          StructType: `${this.config.walrusPackageId}::blob::Blob`
-        }
-      });
+      const cached = useCache ? await this.blobCache.get(blobId) : undefined;
+      if (cached) {
+        return this.sliceRange(cached.data, start, end);
+      }
       
-      const blobObject = blobObjects.data.find(obj => {
-        // Check if this blob object matches our blob ID
-        const content = obj.data?.content;
-        if (content && 'fields' in content && content.fields) {
-          return (content.fields as any).blob_id === blobId;
+      const { response, body } = await this.aggregators.request(async (url, signal, touch) => {
+        const response = await fetch(`${url}/v1/blobs/${blobId}`, {
+          headers: { Range: `bytes=${start}-${end ?? ''}` },
+          signal
+        });
+        if (!response.ok) {
+          throw new EndpointHttpError(`Read failed: ${response.statusText}`, response.status);
         }
-        return false;
-      });
+        return { response, body: await this.readBody(response, touch) };
+      }, options.signal);
       
-      if (!blobObject) {
-        return {
-          id: blobId,
-          status: 'not_found',
-          epochs: 0,
-          expiry: undefined,
-          size: 0,
-          confirmed: false,
-          availability: 0,
-          mimeType: undefined
-        };
+      // An aggregator without range support answers with the whole blob, which is then worth caching
+      if (response.status !== 206) {
+        const data = await this.withContentType(body);
+        if (useCache) {
+          await this.cacheVerified(blobId, data);
+        }
+        return this.sliceRange(data, start, end);
       }
       
-      const response = await fetch(`${this.config.aggregator}/v1/blobs/${blobId}`, {
-        method: 'HEAD'
-      });
+      // Content-Range: bytes <start>-<end>/<total or *>
+      const contentRange = response.headers.get('Content-Range')?.match(/bytes (\d+)-(\d+)\/(\d+|\*)/);
+      const rangeStart = contentRange ? Number(contentRange[1]) : start;
+      
+      // Magic bytes live at the start of the blob, so only a leading range can be sniffed
+      const typed = rangeStart === 0 ? await this.withContentType(body) : body;
+      const totalSize = contentRange && contentRange[3] !== '*' ? Number(contentRange[3]) : undefined;
       
-      const content = blobObject.data?.content;
-      let epochs = 0;
-      if (content && 'fields' in content && content.fields) {
-        epochs = (content.fields as any).storage?.epochs || 0;
+      // A leading range that covers the whole blob is as good as a full read
+      if (useCache && rangeStart === 0 && typed.size === totalSize) {
+        await this.cacheVerified(blobId, typed);
       }
-
+      
       return {
-        id: blobId,
-        status: response.ok ? 'stored' : 'not_found',
-        epochs,
-        expiry: undefined,
-        size: parseInt(response.headers.get('content-length') || '0'),
-        confirmed: true,
-        availability: response.ok ? 1.0 : 0,
-        mimeType: response.headers.get('content-type') || 'application/octet-stream'
+        data: typed,
+        start: rangeStart,
+        end: contentRange ? Number(contentRange[2]) : rangeStart + body.size - 1,
+        totalSize,
+        mimeType: typed.type || 'application/octet-stream'
       };
     } catch (error) {
-      console.error('Walrus status error:', error);
+      console.error('Walrus range read error:', error);
       throw error;
     }
   }
 
-  async extend(objectId: string, epochs: number): Promise<void> {
-    try {
-      const tx = new Transaction();
-      
-      tx.moveCall({
-        target: `${this.config.walrusPackageId}::blob::extend_storage_epochs`,
-        arguments: [
-          tx.object(objectId),
-          tx.pure.u32(epochs)
-        ]
-      });
-      
-      await this.signTransaction(tx);
-    } catch (error) {
-      console.error('Walrus extend error:', error);
-      throw error;
+  async verifyBlobId(blobId: string, data: Blob): Promise<void> {
+    const { blobId: computed } = await this.blobMetadata(data);
+    
+    if (computed !== blobId) {
+      throw new Error(`Blob integrity check failed: content hashes to ${computed}, expected ${blobId}`);
     }
   }
 
-  async delete(blobId: string): Promise<void> {
+  private async blobMetadata(data: Blob): Promise<{ blobId: string; rootHash: Uint8Array }> {
+    const [stakingState, nodeClient] = await Promise.all([this.stakingState(), this.metadataClient()]);
+    // The blob ID commits to the erasure-coded slivers, so it depends on the committee's shard count
+    return nodeClient.computeBlobMetadata({
+      bytes: new Uint8Array(await data.arrayBuffer()),
+      numShards: stakingState.n_shards
+    });
+  }
+
+  // The SDK client pulls in the wasm encoder, so it is only loaded the first time a blob is hashed locally
+  private metadataClient(): Promise<WalrusNodeClient> {
+    this.nodeClientPromise ??= Promise.all([
+      import('@mysten/walrus'),
+      import('@mysten/walrus-wasm/web/walrus_wasm_bg.wasm?url')
+    ]).then(([{ WalrusClient }, { default: wasmUrl }]) => new WalrusClient({
+      suiClient: this.suiClient,
+      packageConfig: {
+        systemObjectId: this.config.systemObjectId,
+        stakingPoolId: this.config.stakingObjectId
+      },
+      wasmUrl
+    }));
+    return this.nodeClientPromise;
+  }
+
+  // Verified reads rely on the cache only ever holding content that matches its blob ID
+  private async cacheVerified(blobId: string, data: Blob): Promise<void> {
     try {
-      // Find the blob object on Sui
-      const blobObjects = await this.suiClient.getOwnedObjects({
-        owner: this.currentAddress,
-        filter: {
-          StructType: `${this.config.walrusPackageId}::blob::Blob`
-        }
-      });
-      
-      const blobObject = blobObjects.data.find(obj => {
-        const content = obj.data?.content;
-        if (content && 'fields' in content && content.fields) {
-          return (content.fields as any).blob_id === blobId;
-        }
-        return false;
-      });
-      
-      if (!blobObject) {
-        throw new Error(`Blob object not found for blob ID: ${blobId}`);
-      }
-      
-      const tx = new Transaction();
-      
-      tx.moveCall({
-        target: `${this.config.walrusPackageId}::blob::delete`,
-        arguments: [tx.object(blobObject.data!.objectId)]
-      });
-      
-      await this.signTransaction(tx);
+      await this.verifyBlobId(blobId, data);
+      await this.blobCache.put(blobId, data, true);
     } catch (error) {
-      console.error('Walrus delete error:', error);
-      throw error;
+      console.warn(`Not caching blob ${blobId}:`, error);
     }
   }
 
-  private async purchaseStorage(epochs: number, size: number): Promise<{ objectId: string; cost: number; gasUsed: number }> {
-    const tx = new Transaction();
-    
-    tx.moveCall({
-      target: `${this.config.walrusPackageId}::storage::purchase`,
-      arguments: [
-        tx.pure.u32(epochs),
-        tx.pure.u64(size)
-      ]
-    });
-    
-    const result = await this.signTransaction(tx);
-    
-    // Extract storage object from events
-    const storageEvent = result.events?.find((e: any) => 
-      e.type.includes('storage::StoragePurchased')
-    );
-    
-    if (!storageEvent) {
-      throw new Error('Storage purchase failed - no storage event found');
+  blobUrl(blobId: string): string {
+    return `${this.aggregators.preferred()}/v1/blobs/${blobId}`;
+  }
+
+  async clearReadCache(): Promise<void> {
+    await this.blobCache.clear();
+  }
+
+  private async readBody(response: Response, touch: () => void): Promise<Blob> {
+    if (!response.body) {
+      return response.blob();
     }
     
-    return {
-      objectId: storageEvent.parsedJson?.storage_id,
-      cost: parseInt(storageEvent.parsedJson?.cost || '0'),
-      gasUsed: parseInt(result.effects?.gasUsed?.computationCost || '0')
-    };
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      touch();
+    }
+    return new Blob(chunks, { type: response.headers.get('Content-Type') ?? '' });
   }
 
-  private async uploadBlob(data: Uint8Array): Promise<AvailabilityCertificate> {
-    // Upload to Walrus storage nodes via publisher
-    const response = await fetch(`${this.config.publisher}/v1/store`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/octet-stream'
-      },
-      body: new Blob([data.buffer as ArrayBuffer])
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Blob upload failed: ${response.statusText}`);
+  private async withContentType(data: Blob): Promise<Blob> {
+    const reported = data.type.split(';')[0].trim();
+    if (reported && reported !== 'application/octet-stream') {
+      return data;
     }
     
-    const result = await response.json();
-    
+    const head = new Uint8Array(await data.slice(0, 4096).arrayBuffer());
+    const sniffed = sniffMimeType(head);
+    return sniffed ? new Blob([data], { type: sniffed }) : data;
+  }
+
+  private sliceRange(data: Blob, start: number, end?: number): WalrusBlobRange {
+    const last = Math.min(end ?? data.size - 1, data.size - 1);
     return {
-      blobId: result.blobId,
-      epochNumber: result.epochNumber,
-      nodes: result.nodes,
-      signatures: result.signatures
+      data: data.slice(start, last + 1, data.type),
+      start,
+      end: last,
+      totalSize: data.size,
+      mimeType: data.type || 'application/octet-stream'
     };
   }
 
-  private async registerBlob(blobId: string, storage: { objectId: string }): Promise<string> {
-    const tx = new Transaction();
-    
-    tx.moveCall({
-      target: `${this.config.walrusPackageId}::blob::register`,
-      arguments: [
-        tx.pure.string(blobId),
-        tx.object(storage.objectId)
-      ]
-    });
-    
-    const result = await this.signTransaction(tx);
-    
-    // Extract blob object ID from created objects
-    const createdObject = result.effects?.created?.[0];
-    if (!createdObject) {
-      throw new Error('Blob registration failed - no object created');
+  async status(blobId: string): Promise<WalrusBlobStatus> {
+    try {
+      const stakingState = await this.stakingState();
+      const timing = this.epochTiming(stakingState);
+
+      // Storage nodes know every blob regardless of who owns it or whether it is wrapped
+      const [nodeStatuses, aggregatorResponse, ownedBlob] = await Promise.all([
+        this.storageNodeStatuses(blobId, stakingState),
+        this.aggregators.request(async (url, signal) => {
+          const response = await fetch(`${url}/v1/blobs/${blobId}`, { method: 'HEAD', signal });
+          if (!response.ok) {
+            throw new EndpointHttpError(`Blob not served: ${response.statusText}`, response.status);
+          }
+          return response;
+        }).catch(() => null),
+        this.findOwnedBlobObject(blobId).catch(() => undefined)
+      ]);
+
+      const known = nodeStatuses.find(status => status.type === 'permanent')
+        ?? nodeStatuses.find(status => status.type === 'deletable')
+        ?? nodeStatuses.find(status => status.type === 'invalid');
+
+      let certifiedEpoch = known?.initialCertifiedEpoch ?? undefined;
+      let endEpoch = known?.endEpoch;
+      let deletable = known ? known.type === 'deletable' : undefined;
+      let objectId: string | undefined;
+
+      // The status event is the BlobCertified event that defines the current availability period
+      if (known?.statusEvent) {
+        const event = await this.blobCertifiedEvent(known.statusEvent);
+        if (event) {
+          objectId = event.object_id;
+          endEpoch = Number(event.end_epoch);
+          deletable = event.deletable;
+          certifiedEpoch ??= Number(event.epoch);
+        }
+      }
+
+      // Deletable blobs carry no end epoch in the node status, so fall back to our own object
+      if (ownedBlob) {
+        objectId ??= ownedBlob.id.id;
+        endEpoch ??= ownedBlob.storage.fields.end_epoch;
+        certifiedEpoch ??= ownedBlob.certified_epoch ?? undefined;
+        deletable ??= ownedBlob.deletable;
+      }
+
+      const certifiedNodes = nodeStatuses.filter(status =>
+        status.type === 'permanent' ? status.isCertified : status.initialCertifiedEpoch != null
+      ).length;
+      const servedByAggregator = aggregatorResponse?.ok ?? false;
+      const confirmed = certifiedEpoch !== undefined || certifiedNodes > 0;
+
+      let status: WalrusBlobStatus['status'] = 'not_found';
+      if (known?.type === 'invalid') {
+        status = 'invalid';
+      } else if (endEpoch !== undefined && endEpoch <= timing.currentEpoch) {
+        status = 'expired';
+      } else if (confirmed || servedByAggregator) {
+        status = 'stored';
+      } else if (known || ownedBlob) {
+        status = 'pending';
+      }
+
+      return {
+        id: blobId,
+        status,
+        epochs: endEpoch !== undefined ? Math.max(endEpoch - timing.currentEpoch, 0) : 0,
+        certifiedEpoch,
+        endEpoch,
+        expiry: endEpoch !== undefined ? epochToDate(endEpoch, timing) : undefined,
+        objectId,
+        deletable,
+        size: parseInt(aggregatorResponse?.headers.get('content-length') || '0') || Number(ownedBlob?.size ?? 0),
+        confirmed,
+        availability: nodeStatuses.length > 0
+          ? certifiedNodes / nodeStatuses.length
+          : servedByAggregator ? 1 : 0,
+        mimeType: aggregatorResponse?.headers.get('content-type') || undefined
+      };
+    } catch (error) {
+      console.error('Walrus status error:', error);
+      throw error;
     }
-    
-    return createdObject.reference.objectId;
   }
 
-  private async certifyBlob(certificate: AvailabilityCertificate): Promise<void> {
-    const tx = new Transaction();
-    
-    tx.moveCall({
-      target: `${this.config.walrusPackageId}::blob::certify`,
-      arguments: [
-        tx.pure.string(certificate.blobId),
-        tx.pure.u64(certificate.epochNumber),
-        tx.pure.vector('address', certificate.nodes),
-        tx.pure.vector('vector<u8>', certificate.signatures.map(sig => Array.from(sig).map(b => Number(b))))
-      ]
+  private async storageNodeStatuses(blobId: string, stakingState: StakingStateFields): Promise<StorageNodeBlobStatus[]> {
+    const nodeIds = stakingState.committee.fields.pos0.fields.contents.map(entry => entry.fields.key);
+    const sample = [...nodeIds]
+      .sort(() => Math.random() - 0.5)
+      .slice(0, APP_CONFIG.walrus.statusNodeSample);
+
+    const pools = await this.suiClient.multiGetObjects({ ids: sample, options: { showContent: true } });
+    const nodeUrls = pools.flatMap(pool => {
+      const content = pool.data?.content;
+      if (!content || content.dataType !== 'moveObject') return [];
+      const fields = content.fields as unknown as StakingPoolFields;
+      return [`https://${fields.node_info.fields.network_address}`];
     });
-    
-    await this.signTransaction(tx);
+
+    const responses = await Promise.allSettled(nodeUrls.map(async url => {
+      const response = await fetch(`${url}/v1/blobs/${blobId}/status`, {
+        signal: AbortSignal.timeout(this.config.timeout ?? SLOW_ENDPOINT_MS * 5)
+      });
+      if (!response.ok) {
+        throw new Error(`Node status failed: ${response.statusText}`);
+      }
+
+      const data = (await response.json()).success.data as RawStorageNodeBlobStatus;
+      if (data === 'nonexistent') return { type: 'nonexistent' as const };
+      if ('invalid' in data) return { type: 'invalid' as const, statusEvent: data.invalid.event };
+      if ('permanent' in data) return { type: 'permanent' as const, ...data.permanent };
+      return { type: 'deletable' as const, ...data.deletable };
+    }));
+
+    return responses.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
   }
 
-  async storeQuilt(files: QuiltFile[], options: WalrusStoreOptions): Promise<WalrusQuiltResult> {
-    throw new Error('Quilt functionality not implemented in proper Walrus protocol');
+  private async blobCertifiedEvent(statusEvent: { txDigest: string; eventSeq: string }): Promise<BlobCertifiedEvent | undefined> {
+    const events = await this.suiClient.queryEvents({ query: { Transaction: statusEvent.txDigest } });
+    const event = events.data.find(candidate =>
+      candidate.id.eventSeq === statusEvent.eventSeq && candidate.type.endsWith('::events::BlobCertified')
+    );
+    return event?.parsedJson as BlobCertifiedEvent | undefined;
   }
 
-  async readQuilt(quiltId: string, identifier: string): Promise<Blob> {
-    throw new Error('Quilt functionality not implemented in proper Walrus protocol');
+  private epochTiming(stakingState: StakingStateFields): EpochTiming {
+    const epochDuration = Number(stakingState.epoch_duration);
+    // The epoch state records when the last epoch change finished; fall back to the schedule otherwise
+    const epochStart = stakingState.epoch_state.variant === 'EpochChangeDone'
+      ? Number(stakingState.epoch_state.fields.pos0)
+      : Number(stakingState.first_epoch_start) + Math.max(stakingState.epoch - 1, 0) * epochDuration;
+
+    return { currentEpoch: stakingState.epoch, epochStart, epochDuration };
   }
 
-  async systemInfo(): Promise<WalrusSystemInfo> {
-    throw new Error('System info is only available via Walrus CLI, not in client implementation');
+
+  async extendCost(blobId: string, epochs: number): Promise<ExtendBlobConfig> {
+    const [blobObject, systemState] = await Promise.all([
+      this.requireOwnedBlobObject(blobId),
+      this.systemState()
+    ]);
+    
+    return this.extendQuote(blobObject, epochs, systemState);
   }
 
-  async listBlobs(owner?: string): Promise<WalrusBlobInfo[]> {
+  async extend(blobId: string, epochs: number, maxCost?: number): Promise<number> {
     try {
-      const address = owner || this.currentAddress;
+      const quote = await this.extendCost(blobId, epochs);
       
-      const blobObjects = await this.suiClient.getOwnedObjects({
-        owner: address,
-        filter: {
-          StructType: `${this.config.walrusPackageId}::blob::Blob`
-        },
-        options: {
-          showContent: true
-        }
-      });
+      // The price is re-read at signing time; refuse if it moved above what the user accepted
+      if (maxCost !== undefined && quote.cost > maxCost) {
+        throw new Error(`Extension now costs ${quote.cost} FROST, more than the accepted ${maxCost}`);
+      }
       
-      return blobObjects.data.map(obj => {
-        const content = obj.data?.content;
-        let blobId = '';
-        let size = 0;
-        let epochs = 0;
-        
-        if (content && 'fields' in content && content.fields) {
-          const fields = content.fields as any;
-          blobId = fields.blob_id || '';
-          size = fields.size || 0;
-          epochs = fields.storage?.epochs || 0;
-        }
-        
-        return {
-          id: blobId,
-          uploadedAt: new Date(),
-          status: 'stored' as const,
-          permanent: false,
-          deletable: true,
-          size,
-          epochs,
-          attributes: {}
-        };
-      });
+      await this.executeExtensions([quote]);
+      return quote.newEndEpoch;
     } catch (error) {
-      console.error('Walrus list blobs error:', error);
+      console.error('Walrus extend error:', error);
       throw error;
     }
   }
 
-  async getBlobAttributes(blobId: string): Promise<Record<string, string>> {
-    throw new Error('Blob attributes functionality not implemented');
+  // Quotes every extension against one read of the system state and the named objects only
+  async extendBatchCost(extensions: { objectId: string; epochs: number }[]): Promise<ExtendBlobConfig[]> {
+    if (extensions.length === 0) {
+      return [];
+    }
+
+    const [blobObjects, systemState] = await Promise.all([
+      this.ownedBlobObjectsById(extensions.map(({ objectId }) => objectId)),
+      this.systemState()
+    ]);
+
+    return extensions.map(({ epochs }, index) => this.extendQuote(blobObjects[index], epochs, systemState));
+  }
+
+  async extendBatch(extensions: { objectId: string; epochs: number }[], maxCost?: number): Promise<void> {
+    try {
+      if (extensions.length === 0) {
+        return;
+      }
+
+      const quotes = await this.extendBatchCost(extensions);
+      const totalCost = quotes.reduce((total, quote) => total + quote.cost, 0);
+      if (maxCost !== undefined && totalCost > maxCost) {
+        throw new Error(`Extensions now cost ${totalCost} FROST, more than the accepted ${maxCost}`);
+      }
+      
+      await this.executeExtensions(quotes);
+    } catch (error) {
+      console.error('Walrus batch extend error:', error);
+      throw error;
+    }
+  }
+
+  private extendQuote(blobObject: BlobObjectFields, epochs: number, systemState: SystemStateFields): ExtendBlobConfig {
+    // Extending pays storage for the already encoded size of the blob's storage resource
+    const storageUnits = storageUnitsFromSize(Number(blobObject.storage.fields.storage_size));
+    
+    return {
+      blobId: blobIdFromInt(blobObject.blob_id),
+      objectId: blobObject.id.id,
+      additionalEpochs: epochs,
+      cost: storageUnits * Number(systemState.storage_price_per_unit_size) * epochs,
+      endEpoch: blobObject.storage.fields.end_epoch,
+      newEndEpoch: blobObject.storage.fields.end_epoch + epochs
+    };
+  }
+
+  private async executeExtensions(quotes: ExtendBlobConfig[]): Promise<void> {
+    const tx = new Transaction();
+    const totalCost = quotes.reduce((total, quote) => total + quote.cost, 0);
+    const payment = await this.walPayment(tx, totalCost);
+    
+    for (const quote of quotes) {
+      tx.moveCall({
+        target: `${this.config.walrusPackageId}::system::extend_blob`,
+        arguments: [
+          tx.object(this.config.systemObjectId),
+          tx.object(quote.objectId),
+          tx.pure.u32(quote.additionalEpochs),
+          payment
+        ]
+      });
+    }
+    
+    await this.signTransaction(tx);
+  }
+
+  // Merges enough WAL coins into one; Walrus takes its payment from the coin by mutable reference
+  private async walPayment(tx: Transaction, amount: number): Promise<TransactionObjectArgument> {
+    const coins: { coinObjectId: string; balance: string }[] = [];
+    let total = 0;
+    let cursor: string | null | undefined = undefined;
+    
+    do {
+      const page = await this.suiClient.getCoins({
+        owner: this.currentAddress,
+        coinType: this.config.walCoinType,
+        cursor
+      });
+      
+      for (const coin of [...page.data].sort((a, b) => Number(b.balance) - Number(a.balance))) {
+        if (total >= amount) break;
+        coins.push(coin);
+        total += Number(coin.balance);
+      }
+      
+      cursor = total < amount && page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+    
+    if (coins.length === 0 || total < amount) {
+      throw new Error(`Insufficient WAL balance: ${amount} FROST needed, ${total} available`);
+    }
+    
+    const [primary, ...rest] = coins.map(coin => tx.object(coin.coinObjectId));
+    if (rest.length > 0) {
+      tx.mergeCoins(primary, rest);
+    }
+    
+    return primary;
+  }
+
+  async shareBlob(blobId: string, initialFunds = 0): Promise<string> {
+    try {
+      const blobObject = await this.requireOwnedBlobObject(blobId);
+      const tx = new Transaction();
+      
+      if (initialFunds > 0) {
+        const payment = await this.walPayment(tx, initialFunds);
+        const [funds] = tx.splitCoins(payment, [initialFunds]);
+        tx.moveCall({
+          target: `${this.config.walrusPackageId}::shared_blob::new_funded`,
+          arguments: [tx.object(blobObject.id.id), funds]
+        });
+      } else {
+        tx.moveCall({
+          target: `${this.config.walrusPackageId}::shared_blob::new`,
+          arguments: [tx.object(blobObject.id.id)]
+        });
+      }
+      
+      // The blob is wrapped as soon as the transaction runs, so a failed read-back is retried by digest
+      const result = await this.signTransaction(tx).catch((error: unknown) => {
+        if (error instanceof ExecutedTransactionError) {
+          return this.executedTransaction(error.digest);
+        }
+        throw error;
+      });
+      const created = result.objectChanges?.find(change =>
+        change.type === 'created' && change.objectType.endsWith('::shared_blob::SharedBlob')
+      );
+      if (created?.type !== 'created') {
+        throw new Error(`Blob was shared in transaction ${result.digest}, but its shared blob object could not be found`);
+      }
+      
+      return created.objectId;
+    } catch (error) {
+      console.error('Walrus share blob error:', error);
+      throw error;
+    }
+  }
+
+  async getSharedBlob(sharedObjectId: string): Promise<SharedBlobInfo> {
+    const object = await this.suiClient.getObject({
+      id: sharedObjectId,
+      options: { showContent: true }
+    });
+    
+    const content = object.data?.content;
+    if (!content || content.dataType !== 'moveObject' || !content.type.endsWith('::shared_blob::SharedBlob')) {
+      throw new Error(`Shared blob not found: ${sharedObjectId}`);
+    }
+    
+    const fields = content.fields as unknown as SharedBlobFields;
+    const blob = fields.blob.fields;
+    return {
+      sharedObjectId,
+      blobId: blobIdFromInt(blob.blob_id),
+      size: Number(blob.size),
+      endEpoch: blob.storage.fields.end_epoch,
+      funds: Number(fields.funds),
+      deletable: blob.deletable
+    };
+  }
+
+  async sharedBlobFundingCost(sharedObjectId: string, epochs: number): Promise<SharedBlobConfig> {
+    const [object, systemState] = await Promise.all([
+      this.suiClient.getObject({ id: sharedObjectId, options: { showContent: true } }),
+      this.systemState()
+    ]);
+    
+    const content = object.data?.content;
+    if (!content || content.dataType !== 'moveObject') {
+      throw new Error(`Shared blob not found: ${sharedObjectId}`);
+    }
+    
+    const blob = (content.fields as unknown as SharedBlobFields).blob.fields;
+    return {
+      sharedObjectId,
+      contributor: this.currentAddress,
+      epochs,
+      cost: this.extendQuote(blob, epochs, systemState).cost
+    };
+  }
+
+  // Adds the contributor's WAL to the shared blob and spends it on the extension in the same transaction
+  async fundSharedBlob(config: SharedBlobConfig): Promise<number> {
+    try {
+      const tx = new Transaction();
+      const payment = await this.walPayment(tx, config.cost);
+      const [funds] = tx.splitCoins(payment, [config.cost]);
+      
+      tx.moveCall({
+        target: `${this.config.walrusPackageId}::shared_blob::fund`,
+        arguments: [tx.object(config.sharedObjectId), funds]
+      });
+      tx.moveCall({
+        target: `${this.config.walrusPackageId}::shared_blob::extend`,
+        arguments: [
+          tx.object(config.sharedObjectId),
+          tx.object(this.config.systemObjectId),
+          tx.pure.u32(config.epochs)
+        ]
+      });
+      
+      await this.signTransaction(tx);
+      
+      const sharedBlob = await this.getSharedBlob(config.sharedObjectId);
+      return sharedBlob.endEpoch;
+    } catch (error) {
+      console.error('Walrus fund shared blob error:', error);
+      throw error;
+    }
+  }
+
+  async sharedBlobContributions(sharedObjectId: string): Promise<SharedBlobContribution[]> {
+    const contributions: SharedBlobContribution[] = [];
+    let cursor: string | null | undefined = undefined;
+    
+    // Every transaction that touched the shared blob; the WAL its sender spent is their contribution
+    do {
+      const page = await this.suiClient.queryTransactionBlocks({
+        filter: { ChangedObject: sharedObjectId },
+        options: { showInput: true, showBalanceChanges: true },
+        order: 'descending',
+        cursor
+      });
+      
+      for (const transaction of page.data) {
+        const sender = transaction.transaction?.data.sender;
+        const spent = (transaction.balanceChanges ?? [])
+          .filter(change =>
+            change.coinType === this.config.walCoinType &&
+            typeof change.owner === 'object' && 'AddressOwner' in change.owner &&
+            change.owner.AddressOwner === sender
+          )
+          .reduce((total, change) => total - Number(change.amount), 0);
+        
+        if (sender && spent > 0) {
+          contributions.push({
+            contributor: sender,
+            amount: spent,
+            digest: transaction.digest,
+            timestamp: transaction.timestampMs ? new Date(Number(transaction.timestampMs)) : undefined
+          });
+        }
+      }
+      
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+    
+    return contributions;
+  }
+
+  // Takes the object ID, since one wallet can hold several Blob objects for the same blob ID
+  async deletePreview(objectId: string): Promise<BlobDeletionPreview> {
+    const [[blobObject], currentEpoch] = await Promise.all([
+      this.ownedBlobObjectsById([objectId]),
+      this.currentEpoch()
+    ]);
+    const storage = this.storageResource(blobObject.storage.fields);
+
+    return {
+      blobId: blobIdFromInt(blobObject.blob_id),
+      objectId: blobObject.id.id,
+      deletable: blobObject.deletable,
+      size: Number(blobObject.size),
+      remainingEpochs: Math.max(0, storage.endEpoch - currentEpoch),
+      storage
+    };
+  }
+
+  async delete(objectId: string): Promise<WalrusStorageResource> {
+    try {
+      const preview = await this.deletePreview(objectId);
+
+      if (!preview.deletable) {
+        throw new Error(`Blob ${preview.blobId} is permanent and cannot be deleted`);
+      }
+      if (preview.remainingEpochs === 0) {
+        throw new Error(`Blob ${preview.blobId} has expired and has no storage left to reclaim`);
+      }
+      
+      const tx = new Transaction();
+      
+      // Deleting hands back the blob's Storage, which stays valid until its end epoch
+      const storage = tx.moveCall({
+        target: `${this.config.walrusPackageId}::system::delete_blob`,
+        arguments: [tx.object(this.config.systemObjectId), tx.object(preview.objectId)]
+      });
+      tx.transferObjects([storage], this.currentAddress);
+      
+      await this.signTransaction(tx);
+      return preview.storage;
+    } catch (error) {
+      console.error('Walrus delete error:', error);
+      throw error;
+    }
+  }
+
+  async ownedStorage(): Promise<WalrusStorageResource[]> {
+    const [currentEpoch, resources] = await Promise.all([this.currentEpoch(), this.ownedStorageObjects()]);
+    return resources
+      .map(fields => this.storageResource(fields))
+      .filter(storage => storage.endEpoch > currentEpoch);
+  }
+
+  async currentEpoch(): Promise<number> {
+    const systemState = await this.systemState();
+    return systemState.committee.fields.epoch;
+  }
+
+  async estimateCost(size: number, epochs: number): Promise<WalrusCostEstimate> {
+    const [systemState, referenceGasPrice] = await Promise.all([
+      this.systemState(),
+      this.suiClient.getReferenceGasPrice()
+    ]);
+
+    const { encodedSize, storageUnits, storageCost, writeCost } = this.storeCost(systemState, size, epochs);
+
+    return {
+      size,
+      epochs,
+      encodedSize,
+      storageUnits,
+      storageCost,
+      writeCost,
+      totalCost: storageCost + writeCost,
+      gasCost: Number(referenceGasPrice) * APP_CONFIG.walrus.storeGasUnits
+    };
+  }
+
+  private storeCost(systemState: SystemStateFields, size: number, epochs: number) {
+    // Storage is paid per unit of encoded size for every epoch, writes once per unit
+    const encodedSize = estimateEncodedSize(size, systemState.committee.fields.n_shards);
+    const storageUnits = storageUnitsFromSize(encodedSize);
+    
+    return {
+      encodedSize,
+      storageUnits,
+      storageCost: storageUnits * Number(systemState.storage_price_per_unit_size) * epochs,
+      writeCost: storageUnits * Number(systemState.write_price_per_unit_size)
+    };
+  }
+
+  private async systemState(): Promise<SystemStateFields> {
+    return this.versionedInner<SystemStateFields>(this.config.systemObjectId, 'Walrus system');
+  }
+
+  private async stakingState(): Promise<StakingStateFields> {
+    return this.versionedInner<StakingStateFields>(this.config.stakingObjectId, 'Walrus staking');
+  }
+
+  // The system and staking objects keep their state in a dynamic field keyed by the object's version
+  private async versionedInner<T>(objectId: string, label: string): Promise<T> {
+    const outer = await this.suiClient.getObject({
+      id: objectId,
+      options: { showContent: true }
+    });
+
+    const content = outer.data?.content;
+    if (!content || content.dataType !== 'moveObject') {
+      throw new Error(`${label} object not found`);
+    }
+
+    const version = (content.fields as { version: string }).version;
+    const inner = await this.suiClient.getDynamicFieldObject({
+      parentId: objectId,
+      name: { type: 'u64', value: version }
+    });
+
+    const innerContent = inner.data?.content;
+    if (!innerContent || innerContent.dataType !== 'moveObject') {
+      throw new Error(`${label} state not found`);
+    }
+
+    return (innerContent.fields as unknown as { value: { fields: T } }).value.fields;
+  }
+
+
+  private async ownedBlobObjects(owner: string): Promise<BlobObjectFields[]> {
+    const blobs: BlobObjectFields[] = [];
+    let cursor: string | null | undefined = undefined;
+
+    do {
+      const page = await this.suiClient.getOwnedObjects({
+        owner,
+        cursor,
+        filter: {
+          StructType: `${this.config.walrusPackageId}::blob::Blob`
+        },
+        options: {
+          showContent: true
+        }
+      });
+
+      for (const obj of page.data) {
+        const content = obj.data?.content;
+        if (content && content.dataType === 'moveObject') {
+          blobs.push(content.fields as unknown as BlobObjectFields);
+        }
+      }
+
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    return blobs;
+  }
+
+  // Reads specific Blob objects, in input order, and checks the connected wallet owns each of them
+  private async ownedBlobObjectsById(objectIds: string[]): Promise<BlobObjectFields[]> {
+    const blobs: BlobObjectFields[] = [];
+
+    for (let start = 0; start < objectIds.length; start += APP_CONFIG.walrus.objectBatchSize) {
+      const batch = objectIds.slice(start, start + APP_CONFIG.walrus.objectBatchSize);
+      const responses = await this.suiClient.multiGetObjects({ ids: batch, options: { showContent: true, showOwner: true } });
+
+      responses.forEach((response, index) => {
+        const content = response.data?.content;
+        const owner = response.data?.owner;
+        const owned = !!owner && typeof owner === 'object' && 'AddressOwner' in owner && owner.AddressOwner === this.currentAddress;
+        if (!content || content.dataType !== 'moveObject' || content.type !== `${this.config.walrusPackageId}::blob::Blob` || !owned) {
+          throw new Error(`Blob object not found: ${batch[index]}`);
+        }
+        blobs.push(content.fields as unknown as BlobObjectFields);
+      });
+    }
+
+    return blobs;
+  }
+
+  private async ownedStorageObjects(): Promise<StorageFields[]> {
+    const resources: StorageFields[] = [];
+    let cursor: string | null | undefined = undefined;
+
+    do {
+      const page = await this.suiClient.getOwnedObjects({
+        owner: this.currentAddress,
+        cursor,
+        filter: {
+          StructType: `${this.config.walrusPackageId}::storage_resource::Storage`
+        },
+        options: {
+          showContent: true
+        }
+      });
+
+      for (const obj of page.data) {
+        const content = obj.data?.content;
+        if (content && content.dataType === 'moveObject') {
+          resources.push(content.fields as unknown as StorageFields);
+        }
+      }
+
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    return resources;
+  }
+
+  private storageResource(fields: StorageFields): WalrusStorageResource {
+    return {
+      objectId: fields.id.id,
+      size: Number(fields.storage_size),
+      startEpoch: fields.start_epoch,
+      endEpoch: fields.end_epoch
+    };
+  }
+
+  private async findOwnedBlobObject(blobId: string): Promise<BlobObjectFields | undefined> {
+    const blobs = await this.ownedBlobObjects(this.currentAddress);
+    return blobs.find(fields => blobIdFromInt(fields.blob_id) === blobId);
+  }
+
+  private async purchaseStorage(epochs: number, size: number): Promise<{ objectId: string; cost: number; gasUsed: number }> {
+    const tx = new Transaction();
+    const { encodedSize, storageCost } = this.storeCost(await this.systemState(), size, epochs);
+    
+    const payment = await this.walPayment(tx, storageCost);
+    const storage = this.addReserveSpaceCall(tx, encodedSize, epochs, payment);
+    tx.transferObjects([storage], this.currentAddress);
+    
+    const result = await this.signTransaction(tx);
+    
+    const storageChange = result.objectChanges?.find(change =>
+      change.type === 'created' && change.objectType.endsWith('::storage_resource::Storage')
+    );
+    if (storageChange?.type !== 'created') {
+      throw new Error('Storage purchase failed - no storage object created');
+    }
+    
+    return {
+      objectId: storageChange.objectId,
+      cost: this.walSpent(result),
+      gasUsed: parseInt(result.effects?.gasUsed?.computationCost || '0')
+    };
+  }
+
+  private addReserveSpaceCall(
+    tx: Transaction,
+    encodedSize: number,
+    epochs: number,
+    payment: TransactionObjectArgument
+  ): TransactionResult {
+    return tx.moveCall({
+      target: `${this.config.walrusPackageId}::system::reserve_space`,
+      arguments: [
+        tx.object(this.config.systemObjectId),
+        tx.pure.u64(encodedSize),
+        tx.pure.u32(epochs),
+        payment
+      ]
+    });
+  }
+
+  // What the sender's WAL balance went down by; Walrus only reports its prices, not what a call charged
+  private walSpent(result: SuiTransactionBlockResponse): number {
+    const change = result.balanceChanges?.find(balance =>
+      balance.coinType === this.config.walCoinType &&
+      typeof balance.owner === 'object' && 'AddressOwner' in balance.owner &&
+      balance.owner.AddressOwner === this.currentAddress
+    );
+    return change ? -Number(change.amount) : 0;
+  }
+
+  /**
+   * Reserves storage (unless already owned), registers and certifies an uploaded blob
+   * in a single programmable transaction, threading the storage into the registration
+   * and the registered blob into the certification.
+   */
+  private async commitBlob(
+    pendingId: string,
+    certificate: AvailabilityCertificate,
+    epochs: number,
+    size: number,
+    deletable: boolean,
+    storage?: PendingStore['storage'],
+    attributes?: Record<string, string>
+  ): Promise<Pick<PendingStore, 'storage' | 'blobObjectId'>> {
+    const tx = new Transaction();
+    const systemState = await this.systemState();
+    const { encodedSize, storageCost, writeCost } = this.storeCost(systemState, size, epochs);
+    
+    const payment = await this.walPayment(tx, storage ? writeCost : storageCost + writeCost);
+    const storageArg = storage
+      ? tx.object(storage.objectId)
+      : this.addReserveSpaceCall(tx, encodedSize, epochs, payment);
+    const blob = this.addRegisterBlobCall(tx, certificate, size, deletable, storageArg, payment);
+    this.addCertifyBlobCall(tx, blob, certificate, systemState.committee.fields.members.length);
+    if (attributes && Object.keys(attributes).length > 0) {
+      this.addWriteAttributesCalls(tx, blob, attributes, null);
+    }
+    tx.transferObjects([blob], this.currentAddress);
+    
+    const result = await this.signTransaction(tx);
+    this.journal.update(pendingId, { commitDigest: result.digest });
+    
+    return this.committedObjects(result, size, storage);
+  }
+
+  private async committedObjects(
+    result: SuiTransactionBlockResponse,
+    size: number,
+    storage?: PendingStore['storage']
+  ): Promise<Pick<PendingStore, 'storage' | 'blobObjectId'>> {
+    const blobObjectId = this.createdBlobObjectId(result);
+    if (storage) {
+      return { storage, blobObjectId };
+    }
+    
+    // Storage reserved in the same transaction is wrapped straight into the blob
+    const [blobObject] = await this.ownedBlobObjectsById([blobObjectId]);
+    return {
+      storage: {
+        objectId: blobObject.storage.fields.id.id,
+        size,
+        cost: this.walSpent(result),
+        gasUsed: parseInt(result.effects?.gasUsed?.computationCost || '0')
+      },
+      blobObjectId
+    };
+  }
+
+  protected executedTransaction(digest: string): Promise<SuiTransactionBlockResponse> {
+    return this.suiClient.waitForTransaction({ digest, options: TRANSACTION_RESPONSE_OPTIONS });
+  }
+
+  private async uploadBlob(
+    data: Blob,
+    { signal, onProgress }: { signal?: AbortSignal; onProgress?: (bytesUploaded: number) => void } = {}
+  ): Promise<AvailabilityCertificate> {
+    // register_blob needs the root hash, which the publisher does not return, so it is computed locally
+    const [certificate, metadata] = await Promise.all([
+      this.publishers.request((url, attemptSignal, touch) => this.uploadBlobTo(url, data, attemptSignal, bytes => {
+        touch();
+        onProgress?.(bytes);
+      }), signal),
+      this.blobMetadata(data)
+    ]);
+    
+    if (metadata.blobId !== certificate.blobId) {
+      throw new Error(`Blob upload failed: publisher certified ${certificate.blobId}, content hashes to ${metadata.blobId}`);
+    }
+    
+    return { ...certificate, rootHash: toBase64(metadata.rootHash) };
+  }
+
+  private uploadBlobTo(
+    publisher: string,
+    data: Blob,
+    signal: AbortSignal,
+    onProgress: (bytesUploaded: number) => void
+  ): Promise<Omit<AvailabilityCertificate, 'rootHash'>> {
+    // XMLHttpRequest streams the Blob from disk and, unlike fetch, reports upload progress
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      
+      const onAbort = () => xhr.abort();
+      signal.addEventListener('abort', onAbort);
+      const cleanup = () => signal.removeEventListener('abort', onAbort);
+      
+      xhr.open('PUT', `${publisher}/v1/store`);
+      xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+      xhr.responseType = 'json';
+      
+      xhr.upload.onprogress = event => {
+        onProgress(event.loaded);
+      };
+      
+      xhr.onload = () => {
+        cleanup();
+        
+        if (xhr.status < 200 || xhr.status >= 300) {
+          reject(new EndpointHttpError(`Blob upload failed: ${xhr.statusText}`, xhr.status));
+          return;
+        }
+        
+        const result = xhr.response;
+        resolve({
+          blobId: result.blobId,
+          signers: result.signers,
+          serializedMessage: result.serializedMessage,
+          signature: result.signature
+        });
+      };
+      
+      xhr.onerror = () => {
+        cleanup();
+        reject(new Error('Blob upload failed: network error'));
+      };
+      
+      xhr.onabort = () => {
+        cleanup();
+        reject(new DOMException('Upload cancelled', 'AbortError'));
+      };
+      
+      if (signal.aborted) {
+        cleanup();
+        reject(new DOMException('Upload cancelled', 'AbortError'));
+        return;
+      }
+      
+      onProgress(0);
+      xhr.send(data);
+    });
+  }
+
+  private async registerBlob(
+    certificate: AvailabilityCertificate,
+    storage: { objectId: string },
+    size: number,
+    deletable: boolean,
+    attributes?: Record<string, string>
+  ): Promise<string> {
+    const tx = new Transaction();
+    const { writeCost } = this.storeCost(await this.systemState(), size, 0);
+    
+    const payment = await this.walPayment(tx, writeCost);
+    const blob = this.addRegisterBlobCall(tx, certificate, size, deletable, tx.object(storage.objectId), payment);
+    if (attributes && Object.keys(attributes).length > 0) {
+      this.addWriteAttributesCalls(tx, blob, attributes, null);
+    }
+    tx.transferObjects([blob], this.currentAddress);
+    
+    const result = await this.signTransaction(tx);
+    
+    return this.createdBlobObjectId(result);
+  }
+
+  private addRegisterBlobCall(
+    tx: Transaction,
+    certificate: AvailabilityCertificate,
+    size: number,
+    deletable: boolean,
+    storage: TransactionObjectArgument,
+    payment: TransactionObjectArgument
+  ): TransactionResult {
+    return tx.moveCall({
+      target: `${this.config.walrusPackageId}::system::register_blob`,
+      arguments: [
+        tx.object(this.config.systemObjectId),
+        storage,
+        tx.pure.u256(blobIdToInt(certificate.blobId)),
+        tx.pure.u256(BigInt(bcs.u256().parse(fromBase64(certificate.rootHash)))),
+        tx.pure.u64(size),
+        tx.pure.u8(RS2_ENCODING_TYPE),
+        tx.pure.bool(deletable),
+        payment
+      ]
+    });
+  }
+
+  protected createdBlobObjectId(result: SuiTransactionBlockResponse): string {
+    // Prefer the created Blob object; a combined transaction also creates storage objects
+    const blobChange = result.objectChanges?.find(change =>
+      change.type === 'created' && change.objectType.endsWith('::blob::Blob')
+    );
+    if (blobChange?.type === 'created') {
+      return blobChange.objectId;
+    }
+    
+    // Extract blob object ID from created objects
+    const createdObject = result.effects?.created?.[0];
+    if (!createdObject) {
+      throw new Error('Blob registration failed - no object created');
+    }
+    
+    return createdObject.reference.objectId;
+  }
+
+  private async certifyBlob(blobObjectId: string, certificate: AvailabilityCertificate): Promise<void> {
+    const tx = new Transaction();
+    const systemState = await this.systemState();
+    
+    this.addCertifyBlobCall(tx, tx.object(blobObjectId), certificate, systemState.committee.fields.members.length);
+    
+    await this.signTransaction(tx);
+  }
+
+  private addCertifyBlobCall(
+    tx: Transaction,
+    blob: TransactionObjectArgument,
+    certificate: AvailabilityCertificate,
+    committeeSize: number
+  ): TransactionResult {
+    return tx.moveCall({
+      target: `${this.config.walrusPackageId}::system::certify_blob`,
+      arguments: [
+        tx.object(this.config.systemObjectId),
+        blob,
+        tx.pure.vector('u8', fromBase64(certificate.signature)),
+        tx.pure.vector('u8', signersBitmap(certificate.signers, committeeSize)),
+        tx.pure.vector('u8', fromBase64(certificate.serializedMessage))
+      ]
+    });
+  }
+
+  async storeQuilt(files: QuiltFile[], options: WalrusStoreOptions): Promise<WalrusQuiltResult> {
+    try {
+      if (files.length === 0) {
+        throw new Error('No files provided');
+      }
+
+      if (files.length > APP_CONFIG.walrus.maxQuiltPatches) {
+        throw new Error(`A quilt can hold at most ${APP_CONFIG.walrus.maxQuiltPatches} files`);
+      }
+
+      this.validateQuiltIdentifiers(files);
+
+      const formData = new FormData();
+      for (const quiltFile of files) {
+        formData.append(quiltFile.identifier, quiltFile.file, quiltFile.file.name);
+      }
+      formData.append('_metadata', JSON.stringify(
+        files.map(quiltFile => ({
+          identifier: quiltFile.identifier,
+          tags: this.toQuiltTags(quiltFile)
+        }))
+      ));
+
+      const params = new URLSearchParams({
+        epochs: options.epochs.toString(),
+        send_object_to: this.currentAddress
+      });
+      if (options.permanent) {
+        params.set('permanent', 'true');
+      } else if (options.deletable) {
+        params.set('deletable', 'true');
+      }
+      if (options.force) {
+        params.set('force', 'true');
+      }
+
+      const result = await this.publishers.request(async (url, signal) => {
+        const response = await fetch(`${url}/v1/quilts?${params.toString()}`, {
+          method: 'PUT',
+          body: formData,
+          signal
+        });
+        if (!response.ok) {
+          throw new EndpointHttpError(`Quilt upload failed: ${response.statusText}`, response.status);
+        }
+        return response.json();
+      }, options.signal);
+      const storeResult = result.blobStoreResult ?? {};
+      const quiltId: string | undefined =
+        storeResult.newlyCreated?.blobObject?.blobId ?? storeResult.alreadyCertified?.blobId;
+
+      if (!quiltId) {
+        throw new Error('Quilt upload failed - no quilt ID returned');
+      }
+
+      const patchIds = new Map<string, string>(
+        (result.storedQuiltBlobs ?? []).map((stored: { identifier: string; quiltPatchId: string }) =>
+          [stored.identifier, stored.quiltPatchId]
+        )
+      );
+
+      const patches: QuiltPatch[] = files.map(quiltFile => ({
+        identifier: quiltFile.identifier,
+        blobId: patchIds.get(quiltFile.identifier) ?? '',
+        tags: quiltFile.tags ?? [],
+        metadata: quiltFile.metadata,
+        size: quiltFile.file.size
+      }));
+
+      return {
+        quiltId,
+        patches,
+        totalSize: files.reduce((total, quiltFile) => total + quiltFile.file.size, 0),
+        cost: storeResult.newlyCreated?.cost ?? 0
+      };
+    } catch (error) {
+      console.error('Walrus store quilt error:', error);
+      throw error;
+    }
+  }
+
+  async readQuilt(quiltId: string, identifier: string): Promise<Blob> {
+    try {
+      return await this.aggregators.request(async (url, signal, touch) => {
+        const response = await fetch(
+          `${url}/v1/blobs/by-quilt-id/${quiltId}/${encodeURIComponent(identifier)}`,
+          { signal }
+        );
+        if (!response.ok) {
+          throw new EndpointHttpError(`Quilt read failed: ${response.statusText}`, response.status);
+        }
+        return this.readBody(response, touch);
+      });
+    } catch (error) {
+      console.error('Walrus read quilt error:', error);
+      throw error;
+    }
+  }
+
+  private validateQuiltIdentifiers(files: QuiltFile[]): void {
+    const seen = new Set<string>();
+
+    for (const { identifier } of files) {
+      if (!/^[a-zA-Z0-9]/.test(identifier)) {
+        throw new Error(`Invalid quilt identifier "${identifier}": must start with an alphanumeric character`);
+      }
+      if (identifier !== identifier.trimEnd()) {
+        throw new Error(`Invalid quilt identifier "${identifier}": must not end with whitespace`);
+      }
+      if (seen.has(identifier)) {
+        throw new Error(`Duplicate quilt identifier "${identifier}"`);
+      }
+      seen.add(identifier);
+    }
+  }
+
+  // Walrus-native tags are a flat string map, so list tags are joined under a single key
+  private toQuiltTags(quiltFile: QuiltFile): Record<string, string> {
+    const tags: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(quiltFile.metadata ?? {})) {
+      tags[key] = typeof value === 'string' ? value : JSON.stringify(value);
+    }
+    if (quiltFile.tags && quiltFile.tags.length > 0) {
+      tags.tags = quiltFile.tags.join(',');
+    }
+
+    return tags;
+  }
+
+  async systemInfo(): Promise<WalrusSystemInfo> {
+    try {
+      const [systemState, stakingState, endpoints] = await Promise.all([
+        this.systemState(),
+        this.stakingState(),
+        Promise.all([this.aggregators.probe(), this.publishers.probe()]).then(probes => probes.flat())
+      ]);
+
+      const { epochStart, epochDuration } = this.epochTiming(stakingState);
+      const epochChangeInProgress = stakingState.epoch_state.variant === 'EpochChangeSync';
+
+      const totalStorage = Number(systemState.total_capacity_size);
+      const reachable = endpoints.filter(endpoint => endpoint.healthy);
+      const averageLatency = reachable.length > 0
+        ? Math.round(reachable.reduce((total, endpoint) => total + (endpoint.latency ?? 0), 0) / reachable.length)
+        : 0;
+
+      let networkHealth: WalrusSystemInfo['networkHealth'] = 'healthy';
+      if (!reachable.some(endpoint => endpoint.name === 'aggregator') || !reachable.some(endpoint => endpoint.name === 'publisher')) {
+        networkHealth = 'unhealthy';
+      } else if (reachable.length < endpoints.length || epochChangeInProgress || averageLatency > SLOW_ENDPOINT_MS) {
+        networkHealth = 'degraded';
+      }
+
+      return {
+        currentEpoch: stakingState.epoch,
+        epochStartTime: new Date(epochStart),
+        epochDuration,
+        epochChangeInProgress,
+        totalStorage,
+        availableStorage: totalStorage - Number(systemState.used_capacity_size),
+        networkHealth,
+        nodeCount: stakingState.committee.fields.pos0.fields.contents.length,
+        shardCount: stakingState.n_shards,
+        averageLatency,
+        endpoints
+      };
+    } catch (error) {
+      console.error('Walrus systemInfo error:', error);
+      throw error;
+    }
+  }
+
+  async listBlobs(owner?: string): Promise<OwnedBlobInfo[]> {
+    try {
+      const address = owner || this.currentAddress;
+      const [blobObjects, stakingState] = await Promise.all([
+        this.ownedBlobObjects(address),
+        this.stakingState()
+      ]);
+      const timing = this.epochTiming(stakingState);
+      const objectIds = blobObjects.map(fields => fields.id.id);
+      const [attributes, createdAt] = await Promise.all([
+        this.readAttributesBatch(objectIds),
+        mapWithConcurrency(objectIds, APP_CONFIG.walrus.listLookupConcurrency, objectId => this.objectCreatedAt(objectId))
+      ]);
+      
+      return blobObjects.map((fields, index) => {
+        const { start_epoch: startEpoch, end_epoch: endEpoch } = fields.storage.fields;
+        
+        let status: WalrusBlobInfo['status'] = 'stored';
+        if (endEpoch <= timing.currentEpoch) {
+          status = 'expired';
+        } else if (fields.certified_epoch === null) {
+          status = 'pending';
+        }
+        
+        return {
+          id: blobIdFromInt(fields.blob_id),
+          objectId: fields.id.id,
+          // Registration time, or the start of the registration epoch if the transaction is unavailable
+          uploadedAt: createdAt[index] ?? epochToDate(fields.registered_epoch, timing),
+          status,
+          permanent: !fields.deletable,
+          deletable: fields.deletable,
+          size: Number(fields.size),
+          epochs: endEpoch - startEpoch,
+          startEpoch,
+          endEpoch,
+          expiry: epochToDate(endEpoch, timing),
+          owner: address,
+          attributes: attributes[index] ?? {}
+        };
+      });
+    } catch (error) {
+      console.error('Walrus list blobs error:', error);
+      throw error;
+    }
+  }
+
+  private async objectCreatedAt(objectId: string): Promise<Date | undefined> {
+    try {
+      // The first transaction that changed an object is the one that created it
+      const transactions = await this.suiClient.queryTransactionBlocks({
+        filter: { ChangedObject: objectId },
+        order: 'ascending',
+        limit: 1
+      });
+      const timestampMs = transactions.data[0]?.timestampMs;
+      return timestampMs ? new Date(Number(timestampMs)) : undefined;
+    } catch (error) {
+      console.warn(`Could not resolve creation time of ${objectId}:`, error);
+      return undefined;
+    }
+  }
+
+  async findBlobs(attributes: Record<string, string>, owner?: string): Promise<OwnedBlobInfo[]> {
+    const blobs = await this.listBlobs(owner);
+    return blobs.filter(blob => matchesAttributes(blob.attributes, attributes));
+  }
+
+  async getBlobAttributes(blobId: string): Promise<Record<string, string>> {
+    const blobObject = await this.requireOwnedBlobObject(blobId);
+    return (await this.readAttributes(blobObject.id.id)) ?? {};
   }
 
   async setBlobAttributes(blobId: string, attributes: Record<string, string>): Promise<void> {
-    throw new Error('Blob attributes functionality not implemented');
+    try {
+      const blobObject = await this.requireOwnedBlobObject(blobId);
+      const existing = await this.readAttributes(blobObject.id.id);
+
+      const tx = new Transaction();
+      this.addWriteAttributesCalls(tx, tx.object(blobObject.id.id), attributes, existing);
+      await this.signTransaction(tx);
+    } catch (error) {
+      console.error('Walrus set attributes error:', error);
+      throw error;
+    }
   }
 
   async deleteBlobAttributes(blobId: string, keys: string[]): Promise<void> {
-    throw new Error('Blob attributes functionality not implemented');
+    try {
+      const blobObject = await this.requireOwnedBlobObject(blobId);
+      const existing = await this.readAttributes(blobObject.id.id);
+
+      if (!existing || !keys.some(key => key in existing)) {
+        return;
+      }
+
+      const removals = Object.fromEntries(keys.map(key => [key, null]));
+      const tx = new Transaction();
+      this.addWriteAttributesCalls(tx, tx.object(blobObject.id.id), removals, existing);
+      await this.signTransaction(tx);
+    } catch (error) {
+      console.error('Walrus delete attributes error:', error);
+      throw error;
+    }
+  }
+
+  private async requireOwnedBlobObject(blobId: string): Promise<BlobObjectFields> {
+    const blobObject = await this.findOwnedBlobObject(blobId);
+    if (!blobObject) {
+      throw new Error(`Blob object not found for blob ID: ${blobId}`);
+    }
+    return blobObject;
+  }
+
+  // Attributes live in the blob's `metadata` dynamic field; null when the blob has none yet
+  private async readAttributes(blobObjectId: string): Promise<Record<string, string> | null> {
+    const response = await this.suiClient.getDynamicFieldObject({
+      parentId: blobObjectId,
+      name: { type: 'vector<u8>', value: METADATA_FIELD_NAME }
+    });
+
+    return this.parseAttributes(response);
+  }
+
+  // Metadata fields have deterministic IDs, so a whole listing is read with a few multiGetObjects calls
+  private async readAttributesBatch(blobObjectIds: string[]): Promise<(Record<string, string> | null)[]> {
+    const fieldIds = blobObjectIds.map(objectId => deriveDynamicFieldID(objectId, 'vector<u8>', METADATA_FIELD_KEY));
+    const attributes: (Record<string, string> | null)[] = [];
+
+    for (let start = 0; start < fieldIds.length; start += APP_CONFIG.walrus.objectBatchSize) {
+      const batch = fieldIds.slice(start, start + APP_CONFIG.walrus.objectBatchSize);
+      try {
+        const responses = await this.suiClient.multiGetObjects({ ids: batch, options: { showContent: true } });
+        attributes.push(...responses.map(response => this.parseAttributes(response)));
+      } catch (error) {
+        // Attributes are decoration; a failed batch lists those blobs without them
+        console.warn('Could not read blob attributes:', error);
+        attributes.push(...batch.map(() => null));
+      }
+    }
+
+    return attributes;
+  }
+
+  private parseAttributes(response: SuiObjectResponse): Record<string, string> | null {
+    const content = response.data?.content;
+    if (!content || content.dataType !== 'moveObject') {
+      return null;
+    }
+
+    const entries = (content.fields as unknown as BlobMetadataField).value.fields.metadata.fields.contents;
+    return Object.fromEntries(entries.map(entry => [entry.fields.key, entry.fields.value]));
+  }
+
+  private addWriteAttributesCalls(
+    tx: Transaction,
+    blob: TransactionObjectArgument,
+    attributes: Record<string, string | null>,
+    existing: Record<string, string> | null
+  ): void {
+    if (!existing) {
+      const metadata = tx.moveCall({
+        target: `${this.config.walrusPackageId}::metadata::new`
+      });
+      tx.moveCall({
+        target: `${this.config.walrusPackageId}::blob::add_metadata`,
+        arguments: [blob, metadata]
+      });
+    }
+
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value === null) {
+        if (existing && key in existing) {
+          tx.moveCall({
+            target: `${this.config.walrusPackageId}::blob::remove_metadata_pair`,
+            arguments: [blob, tx.pure.string(key)]
+          });
+        }
+        continue;
+      }
+
+      tx.moveCall({
+        target: `${this.config.walrusPackageId}::blob::insert_or_update_metadata_pair`,
+        arguments: [blob, tx.pure.string(key), tx.pure.string(value)]
+      });
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,169 @@
+import type {
+  WalrusStoreOptions,
+  WalrusStoreResult,
+  WalrusStorePhase,
+  WalrusConfig,
+  PendingStore
+} from '../types/walrus';
+
+import { SuiClient } from '@mysten/sui/client';
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { WalrusClient as WalrusNodeClient } from '@mysten/walrus';
+import walrusWasmUrl from '@mysten/walrus-wasm/web/walrus_wasm_bg.wasm?url';
+import { WalrusService, ExecutedTransactionError } from './walrus';
+import { StoreJournal } from './storeJournal';
+
+// Encodes blobs in the browser and writes slivers straight to the committee's storage nodes,
+// so uploads do not depend on an HTTP publisher. Reads and everything else stay on the base service.
+export class DirectWalrusService extends WalrusService {
+  private nodeClient: WalrusNodeClient;
+
+  constructor(
+    config: WalrusConfig,
+    suiClient: SuiClient,
+    signTransaction: (tx: Transaction) => Promise<SuiTransactionBlockResponse>,
+    currentAddress: string
+  ) {
+    super(config, suiClient, signTransaction, currentAddress);
+
+    // Direct uploads keep their own journal: a registered blob here has no publisher certificate to resume from
+    this.journal = new StoreJournal(`${config.systemObjectId}:direct`, currentAddress);
+    this.nodeClient = new WalrusNodeClient({
+      suiClient,
+      packageConfig: {
+        systemObjectId: config.systemObjectId,
+        stakingPoolId: config.stakingObjectId
+      },
+      wasmUrl: walrusWasmUrl,
+      storageNodeClientOptions: { timeout: config.timeout }
+    });
+  }
+
+  protected async storeFile(
+    file: File,
+    options: WalrusStoreOptions,
+    fileIndex: number,
+    fileCount: number,
+    pending?: PendingStore
+  ): Promise<WalrusStoreResult> {
+    const report = (phase: WalrusStorePhase, bytesUploaded = 0) => {
+      options.onProgress?.({
+        fileName: file.name,
+        fileIndex,
+        fileCount,
+        phase,
+        bytesUploaded,
+        totalBytes: file.size
+      });
+    };
+
+    // The SDK always buys fresh storage when registering, so reclaimed storage only works through a publisher
+    if (options.reuseStorage) {
+      throw new Error('Reusing reclaimed storage is only supported when uploading via a publisher');
+    }
+
+    const deletable = options.deletable ?? false;
+    let entry = pending
+      ?? this.journal.findForFile(file, options.epochs)
+      ?? this.journal.create(file, options.epochs, deletable, options.attributes);
+
+    try {
+      // Encoding is deterministic, so a resumed store re-encodes instead of persisting slivers
+      this.throwIfAborted(options.signal);
+      report('encode');
+      const { blobId, metadata, rootHash, sliversByNode } = await this.nodeClient.encodeBlob(
+        new Uint8Array(await file.arrayBuffer())
+      );
+
+      const { totalCost } = await this.nodeClient.storageCost(file.size, options.epochs);
+      let gasUsed = 0;
+
+      // Step 1: Purchase storage and register the blob in one transaction, paid from the sender's WAL
+      if (!entry.blobObjectId && !entry.registerDigest) {
+        this.throwIfAborted(options.signal);
+        report('register');
+        const tx = new Transaction();
+        tx.setSender(this.currentAddress);
+        tx.transferObjects([
+          this.nodeClient.registerBlob({
+            size: file.size,
+            epochs: options.epochs,
+            blobId,
+            rootHash,
+            deletable,
+            attributes: entry.attributes
+          })
+        ], this.currentAddress);
+
+        let result: SuiTransactionBlockResponse;
+        try {
+          result = await this.signTransaction(tx);
+        } catch (error) {
+          if (error instanceof ExecutedTransactionError) {
+            this.journal.update(entry.id, { registerDigest: error.digest });
+          }
+          throw error;
+        }
+        // The WAL is spent from here on, so the digest is journaled before anything is parsed
+        entry = this.journal.update(entry.id, { registerDigest: result.digest });
+        gasUsed += this.gasUsed(result);
+        entry = this.journal.update(entry.id, { blobObjectId: this.createdBlobObjectId(result) });
+      }
+      
+      // A registration that ran but could not be read back is resolved from its digest
+      if (!entry.blobObjectId && entry.registerDigest) {
+        this.throwIfAborted(options.signal);
+        report('register');
+        const result = await this.executedTransaction(entry.registerDigest);
+        entry = this.journal.update(entry.id, { blobObjectId: this.createdBlobObjectId(result) });
+      }
+      const blobObjectId = entry.blobObjectId!;
+
+      // Step 2: Write metadata and slivers to every node and collect their storage confirmations
+      this.throwIfAborted(options.signal);
+      report('upload');
+      const confirmations = await this.nodeClient.writeEncodedBlobToNodes({
+        blobId,
+        metadata,
+        sliversByNode,
+        deletable,
+        objectId: blobObjectId,
+        signal: options.signal
+      });
+      report('upload', file.size);
+
+      // Step 3: Certify with the aggregated confirmations
+      this.throwIfAborted(options.signal);
+      report('certify', file.size);
+      const result = await this.signTransaction(
+        this.nodeClient.certifyBlobTransaction({ blobId, blobObjectId, deletable, confirmations })
+      );
+      gasUsed += this.gasUsed(result);
+
+      this.journal.remove(entry.id);
+      report('complete', file.size);
+
+      return {
+        blobId,
+        suiObjectId: blobObjectId,
+        epochs: options.epochs,
+        cost: Number(totalCost),
+        gasUsed
+      };
+    } catch (error) {
+      // Entries are only dropped while nothing has been paid for on chain
+      const saved = this.journal.get(entry.id);
+      if (saved && !saved.blobObjectId && !saved.registerDigest) {
+        this.journal.remove(entry.id);
+      } else {
+        this.journal.update(entry.id, { lastError: error instanceof Error ? error.message : String(error) });
+      }
+      throw error;
+    }
+  }
+
+  private gasUsed(result: SuiTransactionBlockResponse): number {
+    return parseInt(result.effects?.gasUsed?.computationCost || '0');
+  }
+}
@@ -1,3 +1,6 @@
+import type { SealPackageIds } from './seal';
+import type { PendingStore, WalrusSystemInfo, WalrusBlobInfo, RenewalPolicy, RenewalQueueItem, WalrusUploadMode, WalrusStorageResource } from './walrus';
+
 export interface BlobInfo {
   id: string;
   size: number;
@@ -21,6 +24,7 @@ export interface QuiltPatch {
   blobId: string;
   tags: string[];
   metadata?: Record<string, any>;
+  size?: number;
 }
 
 export interface StoreResult {
@@ -46,15 +50,6 @@ export interface BlobStatus {
   confirmed: boolean;
 }
 
-export interface SystemInfo {
-  currentEpoch: number;
-  epochStartTime: Date;
-  epochDuration: number;
-  totalStorage: number;
-  availableStorage: number;
-  networkHealth: 'healthy' | 'degraded' | 'unhealthy';
-}
-
 export interface NetworkState {
   current: 'testnet' | 'mainnet';
   walrusConfig: WalrusConfig;
@@ -64,12 +59,21 @@ export interface NetworkState {
 export interface WalrusConfig {
   aggregator: string;
   publisher: string;
+  aggregators?: string[];
+  publishers?: string[];
+  uploadMode?: WalrusUploadMode;
   packageId: string;
+  systemObjectId: string;
+  stakingObjectId: string;
+  walCoinType: string;
+  timeout?: number;
+  retries?: number;
 }
 
 export interface SealConfig {
   keyServers: KeyServerInfo[];
   packageId: string;
+  packages: SealPackageIds;
   defaultThreshold: number;
   sessionTTL: number;
   encryptionMode: string;
@@ -107,7 +111,17 @@ export interface AppState {
 export interface WalrusState {
   blobs: BlobInfo[];
   quilts: QuiltInfo[];
-  systemInfo: SystemInfo | null;
+  systemInfo: WalrusSystemInfo | null;
+  pendingStores: PendingStore[];
+  renewal: RenewalState;
+  reusableStorage: WalrusStorageResource | null;
+}
+
+export interface RenewalState {
+  policies: RenewalPolicy[];
+  queue: RenewalQueueItem[];
+  expiring: WalrusBlobInfo[];
+  lastCheckedAt: Date | null;
 }
 
 export interface SealState {
@@ -9,10 +9,19 @@ export interface SealClient {
   getPublicKeys(serverObjectIds: string[]): Promise<any[]>;
   parseEncryptedObject(encryptedBytes: Uint8Array): Promise<any>;
   buildSealApproveTransaction(packageId: string, moduleName: string, functionName: string, id: string, ...args: any[]): Promise<Uint8Array>;
-  createAllowlist(members: string[]): Promise<string>;
+  createAllowlist(name: string, members?: string[]): Promise<string>;
+  getAllowlist(allowlistId: string): Promise<SealAllowlistInfo>;
   addToAllowlist(allowlistId: string, member: string): Promise<void>;
   removeFromAllowlist(allowlistId: string, member: string): Promise<void>;
   checkAllowlistMembership(allowlistId: string, member: string): Promise<boolean>;
+  ownedAllowlistIds(): Promise<string[]>;
+  publishToAllowlist(allowlistId: string, blobIds: string[]): Promise<void>;
+  createSubscriptionService(name: string, config: SealSubscriptionConfig): Promise<string>;
+  getSubscriptionService(serviceId: string): Promise<SealSubscriptionServiceInfo>;
+  ownedSubscriptionServiceIds(): Promise<string[]>;
+  publishToSubscriptionService(serviceId: string, blobIds: string[]): Promise<void>;
+  subscribe(serviceId: string): Promise<string>;
+  ownedSubscriptions(): Promise<SealSubscriptionInfo[]>;
 }
 
 export interface SealEncryptionPolicy {
@@ -75,26 +84,64 @@ export interface SealPolicyInfo {
 }
 
 export interface SealAllowlistConfig {
-  members: string[];
-  owner: string;
+  allowlistId: string; // identities are prefixed by the allowlist object ID
+  members?: string[];
+  owner?: string;
   maxMembers?: number;
   requireOwnerApproval?: boolean;
 }
 
+// On-chain state of an allowlist object from the Seal example patterns package
+export interface SealAllowlistInfo {
+  id: string;
+  name: string;
+  members: string[];
+  blobIds: string[]; // Walrus blobs published to the allowlist
+  capId?: string; // set when the connected wallet administers the allowlist
+}
+
 export interface SealSubscriptionConfig {
-  pricePerAccess: number;
-  duration: number;
+  serviceId?: string; // required to encrypt; unknown until the service is created
+  pricePerAccess: number; // MIST
+  duration: number; // milliseconds
   maxSubscribers?: number;
   autoRenewal?: boolean;
   feeCollector: string;
 }
 
+export interface SealSubscriptionServiceInfo {
+  id: string;
+  name: string;
+  fee: number; // MIST
+  ttl: number; // milliseconds
+  owner: string;
+  blobIds: string[];
+  capId?: string; // set when the connected wallet created the service
+}
+
+export interface SealSubscriptionInfo {
+  id: string;
+  serviceId: string;
+  createdAt: number; // milliseconds since epoch
+}
+
 export interface SealTimelockConfig {
   unlockTime: Date;
   unlockCondition?: string;
   publicReveal?: boolean;
 }
 
+export interface SealPrivateConfig {
+  owner: string; // identities are prefixed by the owner's address
+}
+
+// A time-locked blob tracked in this browser; the unlock time is also encoded in its Seal identity
+export interface SealTimelockEntry {
+  blobId: string;
+  name: string;
+  unlockTime: number; // milliseconds since epoch
+}
+
 export interface SealVotingConfig {
   votingPeriod: number;
   quorum: number;
@@ -134,9 +181,18 @@ export interface SealKeyResponse {
   ttl: number;
 }
 
+// Packages holding the access policy modules; the Seal examples publish them all together
+export interface SealPackageIds {
+  allowlist: string;
+  subscription: string;
+  timelock: string;
+  privateData: string;
+}
+
 export interface SealConfig {
   keyServers: SealKeyServerInfo[];
   packageId: string;
+  packages: SealPackageIds;
   defaultThreshold: number;
   sessionTTL: number;
   encryptionMode: string;
@@ -1,13 +1,33 @@
 export interface WalrusClient {
-  store(files: File[], options: WalrusStoreOptions): Promise<WalrusStoreResult>;
-  read(blobId: string): Promise<Blob>;
+  store(files: File[], options: WalrusStoreOptions): Promise<WalrusFileStoreResult[]>;
+  read(blobId: string, options?: WalrusReadOptions): Promise<Blob>;
+  readRange(blobId: string, start: number, end?: number, options?: WalrusReadOptions): Promise<WalrusBlobRange>;
+  blobUrl(blobId: string): string;
+  verifyBlobId(blobId: string, data: Blob): Promise<void>;
+  clearReadCache(): Promise<void>;
   status(blobId: string): Promise<WalrusBlobStatus>;
-  extend(objectId: string, epochs: number): Promise<void>;
-  delete(blobId: string): Promise<void>;
+  extendCost(blobId: string, epochs: number): Promise<ExtendBlobConfig>;
+  extend(blobId: string, epochs: number, maxCost?: number): Promise<number>;
+  extendBatchCost(extensions: { objectId: string; epochs: number }[]): Promise<ExtendBlobConfig[]>;
+  extendBatch(extensions: { objectId: string; epochs: number }[], maxCost?: number): Promise<void>;
+  deletePreview(objectId: string): Promise<BlobDeletionPreview>;
+  delete(objectId: string): Promise<WalrusStorageResource>;
+  ownedStorage(): Promise<WalrusStorageResource[]>;
+  shareBlob(blobId: string, initialFunds?: number): Promise<string>;
+  getSharedBlob(sharedObjectId: string): Promise<SharedBlobInfo>;
+  sharedBlobFundingCost(sharedObjectId: string, epochs: number): Promise<SharedBlobConfig>;
+  fundSharedBlob(config: SharedBlobConfig): Promise<number>;
+  sharedBlobContributions(sharedObjectId: string): Promise<SharedBlobContribution[]>;
   storeQuilt(files: QuiltFile[], options: WalrusStoreOptions): Promise<WalrusQuiltResult>;
   readQuilt(quiltId: string, identifier: string): Promise<Blob>;
   systemInfo(): Promise<WalrusSystemInfo>;
-  listBlobs(owner?: string): Promise<WalrusBlobInfo[]>;
+  listBlobs(owner?: string): Promise<OwnedBlobInfo[]>;
+  pendingStores(): PendingStore[];
+  resumeStore(pendingId: string, file: File, options?: Pick<WalrusStoreOptions, 'signal' | 'onProgress'>): Promise<WalrusStoreResult>;
+  discardPendingStore(pendingId: string): void;
+  currentEpoch(): Promise<number>;
+  estimateCost(size: number, epochs: number): Promise<WalrusCostEstimate>;
+  findBlobs(attributes: Record<string, string>, owner?: string): Promise<OwnedBlobInfo[]>;
   getBlobAttributes(blobId: string): Promise<Record<string, string>>;
   setBlobAttributes(blobId: string, attributes: Record<string, string>): Promise<void>;
   deleteBlobAttributes(blobId: string, keys: string[]): Promise<void>;
@@ -19,6 +39,21 @@ export interface WalrusStoreOptions {
   deletable?: boolean;
   attributes?: Record<string, string>;
   force?: boolean;
+  singleTransaction?: boolean;
+  reuseStorage?: WalrusStorageResource; // registers the first file on this storage instead of buying new
+  signal?: AbortSignal;
+  onProgress?: (progress: WalrusStoreProgress) => void;
+}
+
+export type WalrusStorePhase = 'encode' | 'purchase' | 'upload' | 'commit' | 'register' | 'certify' | 'complete';
+
+export interface WalrusStoreProgress {
+  fileName: string;
+  fileIndex: number;
+  fileCount: number;
+  phase: WalrusStorePhase;
+  bytesUploaded: number;
+  totalBytes: number;
 }
 
 export interface WalrusStoreResult {
@@ -29,38 +64,155 @@ export interface WalrusStoreResult {
   gasUsed?: number;
 }
 
-export interface WalrusBlobStatus {
+export interface WalrusReadOptions {
+  cache?: boolean; // defaults to true
+  verify?: boolean; // re-derive the blob ID from the downloaded bytes and reject a mismatch
+  signal?: AbortSignal;
+}
+
+export interface WalrusBlobRange {
+  data: Blob;
+  start: number;
+  end: number; // inclusive
+  totalSize?: number;
+  mimeType: string;
+}
+
+export type RenewalTarget =
+  | { type: 'blob'; blobId: string }
+  | { type: 'attribute'; key: string; value: string };
+
+export interface RenewalPolicy {
+  id: string;
+  target: RenewalTarget;
+  keepEpochsAhead: number;
+  createdAt: string;
+}
+
+export interface RenewalQueueItem {
+  blobId: string;
+  objectId: string;
+  endEpoch: number;
+  extendEpochs: number;
+  policyId: string;
+}
+
+export interface WalrusCostEstimate {
+  size: number;
+  epochs: number;
+  encodedSize: number;
+  storageUnits: number;
+  storageCost: number; // FROST
+  writeCost: number; // FROST
+  totalCost: number; // FROST
+  gasCost: number; // MIST
+}
+
+export interface WalrusFileStoreResult {
+  fileName: string;
+  size: number;
+  status: 'stored' | 'failed' | 'cancelled';
+  result?: WalrusStoreResult;
+  error?: string;
+}
+
+export interface PendingStore {
   id: string;
-  status: 'stored' | 'expired' | 'pending' | 'not_found';
+  fileName: string;
+  fileKey: string;
+  size: number;
   epochs: number;
+  deletable: boolean;
+  attributes?: Record<string, string>;
+  storage?: {
+    objectId: string;
+    size: number;
+    cost: number;
+    gasUsed: number;
+  };
+  certificate?: AvailabilityCertificate;
+  blobObjectId?: string;
+  commitDigest?: string; // the combined purchase, register and certify transaction, once it has run
+  registerDigest?: string; // the direct-mode purchase and register transaction, once it has run
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WalrusBlobStatus {
+  id: string;
+  status: 'stored' | 'expired' | 'pending' | 'invalid' | 'not_found';
+  epochs: number; // epochs remaining
+  certifiedEpoch?: number;
+  endEpoch?: number;
   expiry?: Date;
+  objectId?: string;
+  deletable?: boolean;
   size: number;
   confirmed: boolean;
   availability: number;
   mimeType?: string;
 }
 
+// A Storage object reclaimed from a deleted blob; size is in encoded bytes
+export interface WalrusStorageResource {
+  objectId: string;
+  size: number;
+  startEpoch: number;
+  endEpoch: number;
+}
+
+export interface BlobDeletionPreview {
+  blobId: string;
+  objectId: string;
+  deletable: boolean;
+  size: number;
+  remainingEpochs: number;
+  storage: WalrusStorageResource;
+}
+
 export interface WalrusBlobInfo {
   id: string;
+  objectId?: string;
   size: number;
   uploadedAt: Date;
   status: 'stored' | 'expired' | 'pending';
   epochs: number;
+  startEpoch?: number;
+  endEpoch?: number;
+  expiry?: Date;
   permanent: boolean;
   deletable: boolean;
   owner?: string;
   attributes?: Record<string, string>;
 }
 
+// Blobs read from the chain always carry the object they live in
+export interface OwnedBlobInfo extends WalrusBlobInfo {
+  objectId: string;
+}
+
 export interface WalrusSystemInfo {
   currentEpoch: number;
   epochStartTime: Date;
-  epochDuration: number;
+  epochDuration: number; // milliseconds
+  epochChangeInProgress: boolean;
   totalStorage: number;
   availableStorage: number;
   networkHealth: 'healthy' | 'degraded' | 'unhealthy';
   nodeCount: number;
+  shardCount: number;
   averageLatency: number;
+  endpoints: WalrusEndpointHealth[];
+}
+
+export interface WalrusEndpointHealth {
+  name: 'aggregator' | 'publisher';
+  url: string;
+  healthy: boolean;
+  preferred: boolean; // the endpoint requests currently go to first
+  latency: number | null; // milliseconds, null when unreachable
+  error?: string;
 }
 
 export interface QuiltFile {
@@ -85,20 +237,31 @@ export interface QuiltPatch {
   size: number;
 }
 
+// 'publisher' sends raw bytes to an HTTP publisher; 'direct' encodes locally and writes slivers to storage nodes
+export type WalrusUploadMode = 'publisher' | 'direct';
+
 export interface WalrusConfig {
   aggregator: string;
   publisher: string;
+  aggregators?: string[]; // ordered by preference; defaults to [aggregator]
+  publishers?: string[]; // ordered by preference; defaults to [publisher]
+  uploadMode?: WalrusUploadMode;
   packageId: string;
   walrusPackageId: string;
+  systemObjectId: string;
+  stakingObjectId: string;
+  walCoinType: string;
   timeout?: number;
   retries?: number;
 }
 
+// Byte fields are base64 so the certificate survives the store journal
 export interface AvailabilityCertificate {
   blobId: string;
-  epochNumber: number;
-  nodes: string[];
-  signatures: string[];
+  rootHash: string; // Merkle root over the blob's sliver hashes, computed locally
+  signers: number[]; // committee member indices behind the aggregate signature
+  serializedMessage: string;
+  signature: string;
 }
 
 export interface WalrusError {
@@ -114,8 +277,27 @@ export interface SharedBlobConfig {
   cost: number;
 }
 
+export interface SharedBlobInfo {
+  sharedObjectId: string;
+  blobId: string;
+  size: number;
+  endEpoch: number;
+  funds: number; // FROST held by the shared blob
+  deletable: boolean;
+}
+
+export interface SharedBlobContribution {
+  contributor: string;
+  amount: number; // FROST
+  digest: string;
+  timestamp?: Date;
+}
+
 export interface ExtendBlobConfig {
+  blobId: string;
   objectId: string;
   additionalEpochs: number;
-  cost: number;
+  cost: number; // FROST
+  endEpoch: number;
+  newEndEpoch: number;
 }
\ No newline at end of file
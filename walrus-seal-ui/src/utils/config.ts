@@ -1,4 +1,4 @@
-import { NETWORK_CONFIG } from './constants';
+import { NETWORK_CONFIG, APP_CONFIG } from './constants';
 import type { WalrusConfig, SealConfig } from '../types/common';
 
 export function getNetworkConfig(network: 'testnet' | 'mainnet') {
@@ -17,7 +17,7 @@ export function getSuiRpcUrl(network: 'testnet' | 'mainnet'): string {
   return NETWORK_CONFIG[network].sui.rpc;
 }
 
-export function validateFileSize(file: File, maxSize: number = 50 * 1024 * 1024): boolean {
+export function validateFileSize(file: File, maxSize: number = APP_CONFIG.walrus.maxFileSize): boolean {
   return file.size <= maxSize;
 }
 
@@ -41,6 +41,31 @@ export function formatBytes(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 }
 
+export function estimateEncodedSize(size: number, shardCount: number = APP_CONFIG.walrus.shardCount): number {
+  const maxFaulty = Math.floor((shardCount - 1) / 3);
+  const primarySymbols = shardCount - 2 * maxFaulty;
+  const secondarySymbols = shardCount - maxFaulty;
+
+  let symbolSize = Math.floor((Math.max(size, 1) - 1) / (primarySymbols * secondarySymbols)) + 1;
+  if (symbolSize % 2 === 1) {
+    symbolSize += 1;
+  }
+
+  const sliversSize = (primarySymbols + secondarySymbols) * symbolSize * shardCount;
+  const metadataSize = shardCount * (shardCount * 32 * 2 + 32);
+
+  return sliversSize + metadataSize;
+}
+
+export function storageUnitsFromSize(size: number): number {
+  return Math.ceil(size / APP_CONFIG.walrus.bytesPerStorageUnit);
+}
+
+export function formatTokenAmount(amount: number, symbol: string, decimals = 9): string {
+  const value = amount / Math.pow(10, decimals);
+  return `${parseFloat(value.toFixed(6))} ${symbol}`;
+}
+
 export function formatDate(date: Date): string {
   return new Intl.DateTimeFormat('en-US', {
     year: 'numeric',
@@ -51,6 +76,16 @@ export function formatDate(date: Date): string {
   }).format(date);
 }
 
+export function formatDuration(ms: number): string {
+  const minutes = Math.max(Math.floor(ms / 60000), 0);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
 export function truncateAddress(address: string, start = 6, end = 4): string {
   if (address.length <= start + end) return address;
   return `${address.slice(0, start)}...${address.slice(-end)}`;
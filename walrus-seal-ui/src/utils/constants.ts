@@ -7,8 +7,24 @@ export const NETWORK_CONFIG = {
     walrus: {
       aggregator: 'https://aggregator.walrus-testnet.walrus.space',
       publisher: 'https://publisher.walrus-testnet.walrus.space',
+      aggregators: [
+        'https://aggregator.walrus-testnet.walrus.space',
+        'https://wal-aggregator-testnet.staketab.org',
+        'https://walrus-testnet-aggregator.nodes.guru'
+      ],
+      publishers: [
+        'https://publisher.walrus-testnet.walrus.space',
+        'https://wal-publisher-testnet.staketab.org',
+        'https://walrus-testnet-publisher.nodes.guru'
+      ],
+      timeout: 30_000,
+      retries: 2,
+      uploadMode: 'publisher' as const,
       packageId: '0xd84704c17fc870b8764832c535aa6b11f21a95cd6f5bb38a9b07d2cf42220c66',
-      walrusPackageId: '0xd84704c17fc870b8764832c535aa6b11f21a95cd6f5bb38a9b07d2cf42220c66'
+      walrusPackageId: '0xd84704c17fc870b8764832c535aa6b11f21a95cd6f5bb38a9b07d2cf42220c66',
+      systemObjectId: '0x6c2547cbbc38025cf3adac45f63cb0a8d12ecf777cdc75a4971612bf97fdf6af',
+      stakingObjectId: '0xbe46180321c30aab2f8b3501e24048377287fa708018a5b7c2792b35fe339ee3',
+      walCoinType: '0x8270feb7375eee355e64fdb69c50abb6b5f9393a722883c1cf45f8e26048810a::wal::WAL'
     },
     seal: {
       keyServers: [
@@ -30,6 +46,12 @@ export const NETWORK_CONFIG = {
         }
       ],
       packageId: '0x8afa5d31dbaa0a8fb07082692940ca3d56b5e856c5126cb5a3693f0a4de63b82',
+      packages: {
+        allowlist: '0x8afa5d31dbaa0a8fb07082692940ca3d56b5e856c5126cb5a3693f0a4de63b82',
+        subscription: '0x8afa5d31dbaa0a8fb07082692940ca3d56b5e856c5126cb5a3693f0a4de63b82',
+        timelock: '0x8afa5d31dbaa0a8fb07082692940ca3d56b5e856c5126cb5a3693f0a4de63b82',
+        privateData: '0x8afa5d31dbaa0a8fb07082692940ca3d56b5e856c5126cb5a3693f0a4de63b82'
+      },
       defaultThreshold: 2,
       sessionTTL: 10,
       encryptionMode: 'HMAC-CTR'
@@ -43,8 +65,21 @@ export const NETWORK_CONFIG = {
     walrus: {
       aggregator: 'https://aggregator.walrus.space',
       publisher: 'https://publisher.walrus.space',
+      aggregators: [
+        'https://aggregator.walrus.space',
+        'https://aggregator.walrus-mainnet.walrus.space'
+      ],
+      publishers: [
+        'https://publisher.walrus.space'
+      ],
+      timeout: 30_000,
+      retries: 2,
+      uploadMode: 'publisher' as const,
       packageId: '0xfdc88f7d7cf30afab2f82e8380d11ee8f70efb90e863d1de8616fae1bb09ea77',
-      walrusPackageId: '0xfdc88f7d7cf30afab2f82e8380d11ee8f70efb90e863d1de8616fae1bb09ea77'
+      walrusPackageId: '0xfdc88f7d7cf30afab2f82e8380d11ee8f70efb90e863d1de8616fae1bb09ea77',
+      systemObjectId: '0x2134d52768ea07e8c43570ef975eb3e4c27a39fa6396bef985b5abc58d03ddd2',
+      stakingObjectId: '0x10b9d30c28448939ce6c4d6c6e0ffce4a7f8a4ada8248bdad09ef8b70e4a3904',
+      walCoinType: '0x356a26eb9e012a68958082340d4c4116e7f55615cf27affcff209cf0ae544f59::wal::WAL'
     },
     seal: {
       keyServers: [
@@ -58,6 +93,12 @@ export const NETWORK_CONFIG = {
         }
       ],
       packageId: '0x1bf28f8ff9e12bafcbe3b2e42a1db1d4b8a1e9b8c5d6e7f8a9b0c1d2e3f4a5b6',
+      packages: {
+        allowlist: '0x1bf28f8ff9e12bafcbe3b2e42a1db1d4b8a1e9b8c5d6e7f8a9b0c1d2e3f4a5b6',
+        subscription: '0x1bf28f8ff9e12bafcbe3b2e42a1db1d4b8a1e9b8c5d6e7f8a9b0c1d2e3f4a5b6',
+        timelock: '0x1bf28f8ff9e12bafcbe3b2e42a1db1d4b8a1e9b8c5d6e7f8a9b0c1d2e3f4a5b6',
+        privateData: '0x1bf28f8ff9e12bafcbe3b2e42a1db1d4b8a1e9b8c5d6e7f8a9b0c1d2e3f4a5b6'
+      },
       defaultThreshold: 2,
       sessionTTL: 10,
       encryptionMode: 'HMAC-CTR'
@@ -67,8 +108,24 @@ export const NETWORK_CONFIG = {
 
 export const APP_CONFIG = {
   walrus: {
-    maxFileSize: 50 * 1024 * 1024, // 50MB
+    maxFileSize: 1024 * 1024 * 1024, // 1GB
     defaultEpochs: 5,
+    maxQuiltPatches: 666,
+    shardCount: 1000,
+    bytesPerStorageUnit: 1024 * 1024,
+    storeGasUnits: 20_000, // computation units of a combined purchase/register/certify transaction
+    statusNodeSample: 5,
+    objectBatchSize: 50, // most object IDs a single multiGetObjects call accepts
+    listLookupConcurrency: 5,
+    maxEpochsAhead: 53,
+    renewalWarningEpochs: 2,
+    renewalCheckInterval: 10 * 60 * 1000, // 10 minutes
+    previewBytes: 256 * 1024,
+    fullPreviewMaxBytes: 20 * 1024 * 1024,
+    blobCacheMaxBytes: 200 * 1024 * 1024,
+    blobCacheMaxEntries: 200,
+    retryBaseDelay: 500,
+    endpointCooldown: 30_000, // failing endpoints are tried last for this long
     supportedTypes: ['image/*', 'text/*', 'application/json', 'video/*', 'audio/*']
   },
   seal: {
@@ -78,6 +135,7 @@ export const APP_CONFIG = {
   },
   ui: {
     maxDisplayItems: 50,
+    pageSize: 20,
     autoRefreshInterval: 30000 // 30 seconds
   }
 };
@@ -89,6 +147,7 @@ export const ROUTES = {
     STORE: '/walrus/store',
     QUILT: '/walrus/quilt',
     MANAGE: '/walrus/manage',
+    SHARED: '/walrus/shared',
     SYSTEM: '/walrus/system'
   },
   SEAL: {
@@ -114,6 +173,7 @@ export const ERROR_MESSAGES = {
   INSUFFICIENT_BALANCE: 'Insufficient balance for this operation',
   FILE_TOO_LARGE: 'File size exceeds maximum allowed size',
   INVALID_FILE_TYPE: 'File type is not supported',
+  QUILT_FULL: 'The quilt already holds the maximum number of files',
   ENCRYPTION_FAILED: 'Failed to encrypt data',
   DECRYPTION_FAILED: 'Failed to decrypt data',
   UPLOAD_FAILED: 'Failed to upload file',
@@ -122,6 +182,7 @@ export const ERROR_MESSAGES = {
 
 export const SUCCESS_MESSAGES = {
   FILE_UPLOADED: 'File uploaded successfully',
+  QUILT_UPLOADED: 'Quilt stored successfully',
   FILE_DOWNLOADED: 'File downloaded successfully',
   ENCRYPTION_SUCCESS: 'Data encrypted successfully',
   DECRYPTION_SUCCESS: 'Data decrypted successfully',
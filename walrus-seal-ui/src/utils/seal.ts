@@ -0,0 +1,113 @@
+import { bcs } from '@mysten/sui/bcs';
+import { fromHex, toHex, isValidSuiAddress, isValidSuiObjectId, normalizeSuiAddress, normalizeSuiObjectId } from '@mysten/sui/utils';
+import type {
+  SealEncryptionPolicy,
+  SealAllowlistConfig,
+  SealSubscriptionConfig,
+  SealTimelockConfig,
+  SealPrivateConfig,
+  SealSubscriptionInfo,
+  SealSubscriptionServiceInfo
+} from '../types/seal';
+
+const IDENTITY_NONCE_BYTES = 5;
+
+// Policy modules such as allowlist and subscription only approve identities that start with their
+// object ID (or, for private data, the owner's address); the random suffix keeps every encryption distinct
+export function prefixedIdentity(prefix: string): string {
+  const nonce = crypto.getRandomValues(new Uint8Array(IDENTITY_NONCE_BYTES));
+  return toHex(new Uint8Array([...fromHex(prefix), ...nonce]));
+}
+
+// tle::seal_approve reads the whole identity as a BCS u64 unlock time in milliseconds, so it takes no nonce
+export function timelockIdentity(unlockTime: Date): string {
+  return toHex(bcs.u64().serialize(unlockTime.getTime()).toBytes());
+}
+
+export function timelockUnlockTime(identity: string): Date {
+  return new Date(Number(bcs.u64().parse(fromHex(identity))));
+}
+
+function isAddress(value: unknown): value is string {
+  return typeof value === 'string' && isValidSuiAddress(normalizeSuiAddress(value));
+}
+
+function isObjectId(value: unknown): value is string {
+  return typeof value === 'string' && isValidSuiObjectId(normalizeSuiObjectId(value));
+}
+
+function isCount(value: unknown, min: number): value is number {
+  return typeof value === 'number' && Number.isSafeInteger(value) && value >= min;
+}
+
+// Checks a policy config against its Seal*Config type and derives the identity its seal_approve accepts
+export function policyIdentity(type: SealEncryptionPolicy['policyType'], config: unknown): string {
+  if (typeof config !== 'object' || config === null) {
+    throw new Error(`A ${type} policy needs a configuration`);
+  }
+
+  switch (type) {
+    case 'allowlist': {
+      const { allowlistId, members, owner, maxMembers } = config as Partial<SealAllowlistConfig>;
+      if (!isObjectId(allowlistId)) {
+        throw new Error('Allowlist policies need a valid allowlist object ID');
+      }
+      if (members !== undefined && (!Array.isArray(members) || !members.every(isAddress))) {
+        throw new Error('Allowlist members must be valid Sui addresses');
+      }
+      if (owner !== undefined && !isAddress(owner)) {
+        throw new Error('Allowlist owner must be a valid Sui address');
+      }
+      if (maxMembers !== undefined && (!isCount(maxMembers, 1) || (members?.length ?? 0) > maxMembers)) {
+        throw new Error('Allowlist has more members than its maximum');
+      }
+      return prefixedIdentity(normalizeSuiObjectId(allowlistId));
+    }
+    case 'subscription': {
+      const { serviceId, pricePerAccess, duration, maxSubscribers, feeCollector } = config as Partial<SealSubscriptionConfig>;
+      if (!isObjectId(serviceId)) {
+        throw new Error('Subscription policies need a valid service object ID');
+      }
+      if (!isCount(pricePerAccess, 0)) {
+        throw new Error('Subscription price must be a whole, non-negative amount of MIST');
+      }
+      if (!isCount(duration, 1)) {
+        throw new Error('Subscription duration must be a positive number of milliseconds');
+      }
+      if (maxSubscribers !== undefined && !isCount(maxSubscribers, 1)) {
+        throw new Error('Subscription subscriber limit must be a positive whole number');
+      }
+      if (!isAddress(feeCollector)) {
+        throw new Error('Subscription fee collector must be a valid Sui address');
+      }
+      return prefixedIdentity(normalizeSuiObjectId(serviceId));
+    }
+    case 'timelock': {
+      const { unlockTime } = config as Partial<SealTimelockConfig>;
+      if (!(unlockTime instanceof Date) || !isCount(unlockTime.getTime(), 0)) {
+        throw new Error('Time-lock policies need a valid unlock time');
+      }
+      return timelockIdentity(unlockTime);
+    }
+    case 'private': {
+      const { owner } = config as Partial<SealPrivateConfig>;
+      if (!isAddress(owner)) {
+        throw new Error('Private policies need the owner\'s Sui address');
+      }
+      return prefixedIdentity(normalizeSuiAddress(owner));
+    }
+    default:
+      throw new Error(`${type} policies are not supported by the Seal patterns package`);
+  }
+}
+
+// A subscription grants access from its purchase until the service's TTL has passed
+export function activeSubscription(
+  subscriptions: SealSubscriptionInfo[],
+  service: SealSubscriptionServiceInfo,
+  now: number = Date.now()
+): SealSubscriptionInfo | undefined {
+  return subscriptions
+    .filter(subscription => subscription.serviceId === service.id && subscription.createdAt + service.ttl > now)
+    .sort((a, b) => b.createdAt - a.createdAt)[0];
+}
@@ -0,0 +1,139 @@
+import { bcs } from '@mysten/sui/bcs';
+import type { WalrusBlobInfo, RenewalPolicy, RenewalQueueItem } from '../types/walrus';
+
+export function blobIdFromInt(value: string | bigint): string {
+  return bcs.u256().serialize(value).toBase64()
+    .replace(/=*$/, '')
+    .replaceAll('+', '-')
+    .replaceAll('/', '_');
+}
+
+export function blobIdToInt(blobId: string): bigint {
+  return BigInt(bcs.u256().fromBase64(blobId.replaceAll('-', '+').replaceAll('_', '/')));
+}
+
+export function matchesAttributes(attributes: Record<string, string> | undefined, filter: Record<string, string>): boolean {
+  return Object.entries(filter).every(([key, value]) => attributes?.[key] === value);
+}
+
+export interface EpochTiming {
+  currentEpoch: number;
+  epochStart: number; // unix ms
+  epochDuration: number; // ms
+}
+
+export function epochToDate(epoch: number, timing: EpochTiming): Date {
+  return new Date(timing.epochStart + (epoch - timing.currentEpoch) * timing.epochDuration);
+}
+
+export function policyApplies(policy: RenewalPolicy, blob: WalrusBlobInfo): boolean {
+  return policy.target.type === 'blob'
+    ? policy.target.blobId === blob.id
+    : blob.attributes?.[policy.target.key] === policy.target.value;
+}
+
+export function planRenewals(
+  blobs: WalrusBlobInfo[],
+  policies: RenewalPolicy[],
+  currentEpoch: number,
+  maxEpochsAhead: number
+): RenewalQueueItem[] {
+  const queue: RenewalQueueItem[] = [];
+
+  for (const blob of blobs) {
+    // Expired blobs can no longer be extended
+    if (!blob.objectId || blob.endEpoch === undefined || blob.endEpoch <= currentEpoch) {
+      continue;
+    }
+
+    // The most demanding matching policy wins
+    const policy = policies
+      .filter(candidate => policyApplies(candidate, blob))
+      .sort((a, b) => b.keepEpochsAhead - a.keepEpochsAhead)[0];
+    if (!policy) {
+      continue;
+    }
+
+    const targetEpoch = currentEpoch + Math.min(policy.keepEpochsAhead, maxEpochsAhead);
+    if (blob.endEpoch < targetEpoch) {
+      queue.push({
+        blobId: blob.id,
+        objectId: blob.objectId,
+        endEpoch: blob.endEpoch,
+        extendEpochs: targetEpoch - blob.endEpoch,
+        policyId: policy.id
+      });
+    }
+  }
+
+  return queue;
+}
+
+interface MagicSignature {
+  mime: string;
+  bytes: (number | null)[]; // null matches any byte
+  offset?: number;
+}
+
+const MAGIC_SIGNATURES: MagicSignature[] = [
+  { mime: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mime: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mime: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mime: 'image/webp', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+  { mime: 'image/bmp', bytes: [0x42, 0x4d] },
+  { mime: 'image/x-icon', bytes: [0x00, 0x00, 0x01, 0x00] },
+  { mime: 'audio/wav', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x41, 0x56, 0x45] },
+  { mime: 'audio/mpeg', bytes: [0x49, 0x44, 0x33] },
+  { mime: 'audio/mpeg', bytes: [0xff, 0xfb] },
+  { mime: 'audio/ogg', bytes: [0x4f, 0x67, 0x67, 0x53] },
+  { mime: 'audio/flac', bytes: [0x66, 0x4c, 0x61, 0x43] },
+  { mime: 'video/mp4', bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 },
+  { mime: 'video/webm', bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { mime: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mime: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mime: 'application/gzip', bytes: [0x1f, 0x8b] },
+  { mime: 'application/wasm', bytes: [0x00, 0x61, 0x73, 0x6d] }
+];
+
+function looksLikeText(bytes: Uint8Array): boolean {
+  const sample = bytes.subarray(0, 4096);
+
+  // Control characters other than tab, newlines and form feed mean binary data
+  if (sample.some(byte => byte < 0x20 && (byte < 0x09 || byte > 0x0d) && byte !== 0x1b)) {
+    return false;
+  }
+
+  try {
+    // Streaming mode so that a multi-byte character cut off at the end of the sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function sniffMimeType(bytes: Uint8Array): string | undefined {
+  const match = MAGIC_SIGNATURES.find(({ bytes: signature, offset = 0 }) =>
+    bytes.length >= offset + signature.length &&
+    signature.every((byte, i) => byte === null || bytes[offset + i] === byte)
+  );
+  if (match) {
+    return match.mime;
+  }
+
+  if (bytes.length === 0 || !looksLikeText(bytes)) {
+    return undefined;
+  }
+
+  const head = new TextDecoder().decode(bytes.subarray(0, 512)).trimStart();
+  if (head.startsWith('<svg') || (head.startsWith('<?xml') && head.includes('<svg'))) {
+    return 'image/svg+xml';
+  }
+  if (head.startsWith('{') || head.startsWith('[')) {
+    return 'application/json';
+  }
+  if (/^<(!doctype html|html)/i.test(head)) {
+    return 'text/html';
+  }
+  return 'text/plain';
+}